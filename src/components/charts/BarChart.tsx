@@ -0,0 +1,308 @@
+// ─────────────────────────────────────────────────────────────
+// Component: BarChart
+// Purpose: Responsive SVG bar chart with grouped or stacked series, vertical or horizontal bars and value labels.
+// Layer: Data Visualization
+// Used by: Tax breakdowns, annual contributions, scenario comparisons.
+// Dependencies: useElementSize, ChartAxis, ChartDataTable, ChartLegend, ChartTooltip, chartUtils.
+// ─────────────────────────────────────────────────────────────
+
+import type { KeyboardEvent } from 'react';
+import { useState } from 'react';
+import { useElementSize } from '../../hooks/useElementSize';
+import { ChartAxis } from './ChartAxis';
+import { ChartDataTable } from './ChartDataTable';
+import { ChartLegend } from './ChartLegend';
+import { ChartTooltip, type ChartTooltipItem } from './ChartTooltip';
+import {
+	createBandScale,
+	createLinearScale,
+	formatCompact,
+	formatPlain,
+	getBarSpans,
+	getExtent,
+	getNextIndex,
+	getNiceTicks,
+	getPlotArea,
+	getSeriesColor,
+	type BarSpan,
+	type ChartSeries,
+} from './chartUtils';
+
+// ─── Types ───
+export type BarOrientation = 'vertical' | 'horizontal';
+
+export interface BarChartProps<T> {
+	/** One group of bars per row */
+	data: T[];
+	/** Category label for a row */
+	category: (row: T) => string;
+	/** Series drawn as bars within each category */
+	series: ChartSeries<T>[];
+	/** Bars grow upward (vertical) or to the right (horizontal) */
+	orientation?: BarOrientation;
+	/** Stack series into one bar per category instead of side by side */
+	stacked?: boolean;
+	/** Formats values for ticks, labels and the tooltip */
+	formatValue?: (value: number) => string;
+	/** Print each bar's value (stacked bars print the category total) */
+	showValues?: boolean;
+	/** Chart height in pixels - the width follows the container */
+	height?: number;
+	/** Gridlines at each value tick */
+	showGrid?: boolean;
+	/** Show the series legend (default: when there is more than one series) */
+	showLegend?: boolean;
+	/** Accessible name for the chart, also the data table caption */
+	title?: string;
+	/** Header for the category column of the accessible data table */
+	categoryLabel?: string;
+	/** Additional CSS classes */
+	className?: string;
+}
+
+// ─── Component ───
+export function BarChart<T>({
+	data,
+	category,
+	series,
+	orientation = 'vertical',
+	stacked = false,
+	formatValue,
+	showValues = false,
+	height = 300,
+	showGrid = true,
+	showLegend = series.length > 1,
+	title,
+	categoryLabel = 'Category',
+	className = '',
+}: BarChartProps<T>) {
+	const { ref, width } = useElementSize();
+	const [activeIndex, setActiveIndex] = useState<number | null>(null);
+	const isHorizontal = orientation === 'horizontal';
+
+	// ─── Data ───
+	const categories = data.map(category);
+	const colors = series.map((item, index) => item.color ?? getSeriesColor(index));
+	const values = series.map(item => data.map(row => item.value(row) ?? null));
+	const spans = getBarSpans(values, stacked);
+	const totals = data.map((_, index) => values.reduce((sum, seriesValues) => sum + (seriesValues[index] ?? 0), 0));
+
+	// ─── Scales ───
+	const extent = getExtent(spans.flat().flatMap(span => span ? [span.from, span.to] : [])) ?? [0, 1];
+	// Bars grow from zero, so keep it in view
+	const valueTicks = getNiceTicks(Math.min(0, extent[0]), Math.max(0, extent[1]));
+	const domain: [number, number] = [valueTicks[0], valueTicks[valueTicks.length - 1]];
+	const formatTick = formatValue ?? formatCompact;
+	const formatLabel = formatValue ?? formatPlain;
+
+	const plot = getPlotArea(width, height, isHorizontal ? categories : valueTicks.map(formatTick));
+	const plotRight = plot.left + plot.width;
+	const plotBottom = plot.top + plot.height;
+	const valueScale = isHorizontal
+		? createLinearScale(domain, [plot.left, plotRight])
+		: createLinearScale(domain, [plotBottom, plot.top]);
+	const band = isHorizontal
+		? createBandScale(data.length, [plot.top, plotBottom])
+		: createBandScale(data.length, [plot.left, plotRight]);
+	const barThickness = stacked ? band.bandwidth : band.bandwidth / Math.max(1, series.length);
+
+	const getBarRect = (categoryIndex: number, seriesIndex: number, span: BarSpan) => {
+		const bandOffset = band.start(categoryIndex) + (stacked ? 0 : seriesIndex * barThickness);
+		const a = valueScale(span.from);
+		const b = valueScale(span.to);
+		const valueOffset = Math.min(a, b);
+		const length = Math.abs(b - a);
+		return isHorizontal
+			? { x: valueOffset, y: bandOffset, width: length, height: barThickness }
+			: { x: bandOffset, y: valueOffset, width: barThickness, height: length };
+	};
+
+	/** Farthest point of a category's bars in the direction of its total */
+	const getStackEnd = (categoryIndex: number) => {
+		const ends = spans.map(seriesSpans => seriesSpans[categoryIndex]?.to ?? 0);
+		return totals[categoryIndex] < 0 ? Math.min(0, ...ends) : Math.max(0, ...ends);
+	};
+
+	// ─── Value Labels ───
+	const renderValueLabel = (key: string, value: number, end: number, center: number) => {
+		const position = valueScale(end);
+		const isNegative = value < 0;
+		return isHorizontal ? (
+			<text
+				key={key}
+				x={position + (isNegative ? -4 : 4)}
+				y={center}
+				dy="0.32em"
+				textAnchor={isNegative ? 'end' : 'start'}
+				fontSize={11}
+				fill="var(--text-secondary)"
+			>
+				{formatLabel(value)}
+			</text>
+		) : (
+			<text
+				key={key}
+				x={center}
+				y={position + (isNegative ? 12 : -4)}
+				textAnchor="middle"
+				fontSize={11}
+				fill="var(--text-secondary)"
+			>
+				{formatLabel(value)}
+			</text>
+		);
+	};
+
+	// ─── Hover & Keyboard ───
+	const active = activeIndex !== null && activeIndex < data.length ? activeIndex : null;
+
+	const handleKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+		const next = getNextIndex(event.key, active, data.length);
+		if (next === null) return;
+		event.preventDefault();
+		setActiveIndex(next);
+	};
+
+	const getBandCenter = (index: number) => band.start(index) + band.bandwidth / 2;
+	const tooltipItems: ChartTooltipItem[] = active === null ? [] : series.map((item, seriesIndex) => {
+		const value = values[seriesIndex][active];
+		return {
+			id: item.id,
+			name: item.name,
+			color: colors[seriesIndex],
+			value: value === null ? '—' : formatLabel(value),
+		};
+	});
+	if (active !== null && stacked && series.length > 1) {
+		tooltipItems.push({ id: '__total', name: 'Total', color: 'transparent', value: formatLabel(totals[active]) });
+	}
+
+	const valueAxisTicks = valueTicks.map(tick => ({ position: valueScale(tick), label: formatTick(tick) }));
+	const categoryAxisTicks = categories.map((label, index) => ({ position: getBandCenter(index), label }));
+
+	return (
+		<div className={`w-full ${className}`}>
+			<div ref={ref} className="relative" style={{ height }}>
+				{width > 0 && (
+					<svg
+						width={width}
+						height={height}
+						role="img"
+						aria-label={title ?? 'Bar chart'}
+						tabIndex={0}
+						onKeyDown={handleKeyDown}
+						onBlur={() => setActiveIndex(null)}
+						onPointerLeave={() => setActiveIndex(null)}
+						className="block rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus"
+					>
+						{/* Axes - values run along the bars, categories across them */}
+						<ChartAxis
+							position={isHorizontal ? 'bottom' : 'left'}
+							ticks={valueAxisTicks}
+							plot={plot}
+							grid={showGrid}
+						/>
+						<ChartAxis
+							position={isHorizontal ? 'left' : 'bottom'}
+							ticks={categoryAxisTicks}
+							plot={plot}
+						/>
+
+						{/* Active Category Highlight */}
+						{active !== null && (
+							<rect
+								aria-hidden="true"
+								x={isHorizontal ? plot.left : getBandCenter(active) - band.step / 2}
+								y={isHorizontal ? getBandCenter(active) - band.step / 2 : plot.top}
+								width={isHorizontal ? plot.width : band.step}
+								height={isHorizontal ? band.step : plot.height}
+								fill="var(--bg-hover)"
+								fillOpacity={0.5}
+							/>
+						)}
+
+						{/* Zero Line */}
+						{(isHorizontal || domain[0] < 0) && (
+							isHorizontal ? (
+								<line x1={valueScale(0)} x2={valueScale(0)} y1={plot.top} y2={plotBottom} stroke="var(--border-default)" />
+							) : (
+								<line x1={plot.left} x2={plotRight} y1={valueScale(0)} y2={valueScale(0)} stroke="var(--border-default)" />
+							)
+						)}
+
+						{/* Bars */}
+						{series.map((item, seriesIndex) => (
+							<g key={item.id} fill={colors[seriesIndex]}>
+								{spans[seriesIndex].map((span, categoryIndex) => span && (
+									<rect
+										key={categoryIndex}
+										{...getBarRect(categoryIndex, seriesIndex, span)}
+										rx={2}
+									/>
+								))}
+							</g>
+						))}
+
+						{/* Value Labels */}
+						{showValues && (
+							<g aria-hidden="true">
+								{stacked
+									? data.map((_, categoryIndex) =>
+										renderValueLabel(`total:${categoryIndex}`, totals[categoryIndex], getStackEnd(categoryIndex), getBandCenter(categoryIndex)))
+									: series.flatMap((item, seriesIndex) => spans[seriesIndex].map((span, categoryIndex) => {
+										if (!span) return null;
+										const center = band.start(categoryIndex) + (seriesIndex + 0.5) * barThickness;
+										return renderValueLabel(`${item.id}:${categoryIndex}`, span.to, span.to, center);
+									}))}
+							</g>
+						)}
+
+						{/* Hover Targets - one per category, spanning the whole plot */}
+						{data.map((_, categoryIndex) => (
+							<rect
+								key={categoryIndex}
+								x={isHorizontal ? plot.left : getBandCenter(categoryIndex) - band.step / 2}
+								y={isHorizontal ? getBandCenter(categoryIndex) - band.step / 2 : plot.top}
+								width={isHorizontal ? plot.width : band.step}
+								height={isHorizontal ? band.step : plot.height}
+								fill="transparent"
+								onPointerEnter={() => setActiveIndex(categoryIndex)}
+							/>
+						))}
+					</svg>
+				)}
+
+				{/* Tooltip */}
+				{active !== null && (
+					<ChartTooltip
+						x={isHorizontal ? valueScale(getStackEnd(active)) : getBandCenter(active)}
+						y={isHorizontal ? getBandCenter(active) : plot.top + plot.height / 2}
+						containerWidth={width}
+						title={categories[active]}
+						items={tooltipItems}
+					/>
+				)}
+			</div>
+
+			{/* Legend */}
+			{showLegend && (
+				<ChartLegend
+					items={series.map((item, seriesIndex) => ({ id: item.id, name: item.name, color: colors[seriesIndex] }))}
+				/>
+			)}
+
+			{/* Accessible Data Table */}
+			<ChartDataTable
+				caption={title}
+				headers={[categoryLabel, ...series.map(item => item.name)]}
+				rows={categories.map((label, categoryIndex) => [
+					label,
+					...values.map(seriesValues => {
+						const value = seriesValues[categoryIndex];
+						return value === null ? '—' : formatLabel(value);
+					}),
+				])}
+			/>
+		</div>
+	);
+}
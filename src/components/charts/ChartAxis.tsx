@@ -0,0 +1,90 @@
+// ─────────────────────────────────────────────────────────────
+// Component: ChartAxis
+// Purpose: SVG axis labels and optional gridlines along the left or bottom of a plot.
+// Layer: Data Visualization
+// Used by: LineChart, AreaChart, BarChart, WaterfallChart, FanChart.
+// ─────────────────────────────────────────────────────────────
+
+import type { AxisTick, PlotArea } from './chartUtils';
+
+// ─── Types ───
+export interface ChartAxisProps {
+	/** Edge of the plot the axis sits on */
+	position: 'left' | 'bottom';
+	/** Labelled ticks at pixel positions */
+	ticks: AxisTick[];
+	/** Plot rectangle the axis belongs to */
+	plot: PlotArea;
+	/** Draw gridlines across the plot at each tick */
+	grid?: boolean;
+}
+
+// ─── Component ───
+export function ChartAxis({
+	position,
+	ticks,
+	plot,
+	grid = false,
+}: ChartAxisProps) {
+	const right = plot.left + plot.width;
+	const bottom = plot.top + plot.height;
+
+	if (position === 'left') {
+		return (
+			<g aria-hidden="true">
+				{ticks.map((tick, index) => (
+					<g key={index}>
+						{grid && (
+							<line
+								x1={plot.left}
+								x2={right}
+								y1={tick.position}
+								y2={tick.position}
+								stroke="var(--border-subtle)"
+							/>
+						)}
+						<text
+							x={plot.left - 8}
+							y={tick.position}
+							dy="0.32em"
+							textAnchor="end"
+							fontSize={11}
+							fill="var(--text-muted)"
+						>
+							{tick.label}
+						</text>
+					</g>
+				))}
+			</g>
+		);
+	}
+
+	return (
+		<g aria-hidden="true">
+			<line x1={plot.left} x2={right} y1={bottom} y2={bottom} stroke="var(--border-default)" />
+			{ticks.map((tick, index) => (
+				<g key={index}>
+					{grid && (
+						<line
+							x1={tick.position}
+							x2={tick.position}
+							y1={plot.top}
+							y2={bottom}
+							stroke="var(--border-subtle)"
+						/>
+					)}
+					<line x1={tick.position} x2={tick.position} y1={bottom} y2={bottom + 4} stroke="var(--border-default)" />
+					<text
+						x={tick.position}
+						y={bottom + 16}
+						textAnchor="middle"
+						fontSize={11}
+						fill="var(--text-muted)"
+					>
+						{tick.label}
+					</text>
+				</g>
+			))}
+		</g>
+	);
+}
@@ -0,0 +1,43 @@
+// ─────────────────────────────────────────────────────────────
+// Component: ChartDataTable
+// Purpose: Visually hidden table of a chart's values for screen readers.
+// Layer: Data Visualization
+// Used by: LineChart, AreaChart, BarChart, WaterfallChart, FanChart, DonutChart.
+// ─────────────────────────────────────────────────────────────
+
+// ─── Types ───
+export interface ChartDataTableProps {
+	/** Table caption - usually the chart title */
+	caption?: string;
+	/** Column headers, starting with the row label column */
+	headers: string[];
+	/** Formatted cells per row - the first cell labels the row */
+	rows: string[][];
+}
+
+// ─── Component ───
+export function ChartDataTable({ caption, headers, rows }: ChartDataTableProps) {
+	return (
+		<table className="sr-only">
+			{caption && <caption>{caption}</caption>}
+			<thead>
+				<tr>
+					{headers.map((header, index) => (
+						<th key={index} scope="col">{header}</th>
+					))}
+				</tr>
+			</thead>
+			<tbody>
+				{rows.map((cells, rowIndex) => (
+					<tr key={rowIndex}>
+						{cells.map((cell, cellIndex) => cellIndex === 0 ? (
+							<th key={cellIndex} scope="row">{cell}</th>
+						) : (
+							<td key={cellIndex}>{cell}</td>
+						))}
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
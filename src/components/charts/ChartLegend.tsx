@@ -0,0 +1,98 @@
+// ─────────────────────────────────────────────────────────────
+// Component: ChartLegend
+// Purpose: Color swatches naming each chart series, optionally toggling them on click.
+// Layer: Data Visualization
+// Used by: LineChart, AreaChart, BarChart, DonutChart.
+// ─────────────────────────────────────────────────────────────
+
+// ─── Types ───
+export interface ChartLegendItem {
+	id: string;
+	name: string;
+	color: string;
+	/** Formatted value shown after the name */
+	value?: string;
+}
+
+export interface ChartLegendProps {
+	items: ChartLegendItem[];
+	/** Ids of hidden items - shown faded and struck through */
+	hiddenIds?: string[];
+	/** Turns items into buttons that show or hide their series */
+	onToggle?: (id: string) => void;
+	/** Called with the hovered or focused item id, and null when it leaves */
+	onHighlight?: (id: string | null) => void;
+	/** A centered row under the chart, or a column beside it */
+	layout?: 'row' | 'column';
+}
+
+// ─── Component ───
+export function ChartLegend({
+	items,
+	hiddenIds = [],
+	onToggle,
+	onHighlight,
+	layout = 'row',
+}: ChartLegendProps) {
+	return (
+		<ul
+			className={`
+        flex text-xs text-text-secondary
+        ${layout === 'row'
+          ? 'flex-wrap items-center justify-center gap-x-4 gap-y-1 mt-2'
+          : 'flex-col gap-1 min-w-40'
+        }
+      `}
+		>
+			{items.map(item => {
+				const isHidden = hiddenIds.includes(item.id);
+				const content = (
+					<>
+						<span
+							aria-hidden="true"
+							className={`w-2.5 h-2.5 rounded-sm flex-shrink-0 ${isHidden ? 'opacity-30' : ''}`}
+							style={{ backgroundColor: item.color }}
+						/>
+						<span className={isHidden ? 'line-through opacity-60' : ''}>{item.name}</span>
+						{item.value !== undefined && (
+							<span className={`ml-auto pl-3 tabular-nums text-text-primary ${isHidden ? 'opacity-60' : ''}`}>
+								{item.value}
+							</span>
+						)}
+					</>
+				);
+
+				return (
+					<li
+						key={item.id}
+						onPointerEnter={onHighlight && (() => onHighlight(item.id))}
+						onPointerLeave={onHighlight && (() => onHighlight(null))}
+					>
+						{onToggle ? (
+							<button
+								type="button"
+								aria-pressed={!isHidden}
+								onClick={() => onToggle(item.id)}
+								onFocus={onHighlight && (() => onHighlight(item.id))}
+								onBlur={onHighlight && (() => onHighlight(null))}
+								className="
+                  w-full
+                  flex items-center gap-1.5
+                  px-1 py-0.5
+                  rounded
+                  text-left
+                  hover:text-text-primary
+                  focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus
+                "
+							>
+								{content}
+							</button>
+						) : (
+							<span className="flex items-center gap-1.5">{content}</span>
+						)}
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -0,0 +1,78 @@
+// ─────────────────────────────────────────────────────────────
+// Component: ChartTooltip
+// Purpose: Themed tooltip listing the values under a chart's hover position.
+// Layer: Data Visualization
+// Used by: LineChart, AreaChart, BarChart, WaterfallChart, FanChart, DonutChart.
+// ─────────────────────────────────────────────────────────────
+
+import type { ReactNode } from 'react';
+
+// ─── Types ───
+export interface ChartTooltipItem {
+	id: string;
+	/** Series or category name */
+	name: string;
+	/** Swatch color */
+	color: string;
+	/** Formatted value */
+	value: string;
+}
+
+export interface ChartTooltipProps {
+	/** Anchor x in pixels from the chart's left edge */
+	x: number;
+	/** Anchor y in pixels from the chart's top edge */
+	y: number;
+	/** Chart width - the tooltip flips to the anchor's left past the midpoint */
+	containerWidth: number;
+	/** Heading, e.g. the hovered date */
+	title?: ReactNode;
+	/** Rows listed under the heading */
+	items: ChartTooltipItem[];
+}
+
+// ─── Component ───
+export function ChartTooltip({
+	x,
+	y,
+	containerWidth,
+	title,
+	items,
+}: ChartTooltipProps) {
+	const flip = x > containerWidth / 2;
+
+	return (
+		<div
+			className="
+        absolute z-10
+        px-2.5 py-1.5
+        text-xs text-white
+        bg-bg-tooltip
+        rounded-md
+        shadow-lg
+        pointer-events-none
+        whitespace-nowrap
+      "
+			style={{
+				left: x,
+				top: y,
+				transform: flip ? 'translate(calc(-100% - 12px), -50%)' : 'translate(12px, -50%)',
+			}}
+		>
+			{title !== undefined && <div className="mb-1 font-semibold">{title}</div>}
+			<ul className="flex flex-col gap-0.5">
+				{items.map(item => (
+					<li key={item.id} className="flex items-center gap-2">
+						<span
+							aria-hidden="true"
+							className="w-2 h-2 rounded-full flex-shrink-0"
+							style={{ backgroundColor: item.color }}
+						/>
+						<span className="opacity-80">{item.name}</span>
+						<span className="ml-auto pl-3 font-medium tabular-nums">{item.value}</span>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
@@ -0,0 +1,353 @@
+// ─────────────────────────────────────────────────────────────
+// Component: DonutChart
+// Purpose: Responsive SVG donut chart with the total in the center, hover highlighting, a legend that hides slices and small-slice grouping.
+// Layer: Data Visualization
+// Used by: Asset allocation, tax band splits, spending breakdowns.
+// Dependencies: useControllableState, useElementSize, ChartDataTable, ChartLegend, ChartTooltip, chartUtils.
+// ─────────────────────────────────────────────────────────────
+
+import type { KeyboardEvent } from 'react';
+import { useState } from 'react';
+import { useControllableState } from '../../hooks/useControllableState';
+import { useElementSize } from '../../hooks/useElementSize';
+import type { AccentPreset } from '../../hooks/useTheme';
+import { ChartDataTable } from './ChartDataTable';
+import { ChartLegend } from './ChartLegend';
+import { ChartTooltip, type ChartTooltipItem } from './ChartTooltip';
+import {
+	createChartPalette,
+	formatPercent,
+	formatPlain,
+	getArcPath,
+	getNextIndex,
+	getPolarPoint,
+} from './chartUtils';
+
+// ─── Types ───
+export interface DonutSlice {
+	/** Unique slice id */
+	id: string;
+	/** Name shown in the legend and tooltip */
+	label: string;
+	/** Slice size - negative values count as zero */
+	value: number;
+	/** Slice color - defaults to the palette */
+	color?: string;
+}
+
+export type DonutLabelMode = 'percent' | 'value' | 'none';
+
+export interface DonutChartProps {
+	/** Slices clockwise from 12 o'clock */
+	data: DonutSlice[];
+	/** What slice and legend labels show */
+	labelMode?: DonutLabelMode;
+	/** Formats values for labels, the center total and the tooltip */
+	formatValue?: (value: number) => string;
+	/** Slices below this share of the total (e.g. 0.03) are merged into one "Other" slice */
+	otherThreshold?: number;
+	/** Label for the merged slice */
+	otherLabel?: string;
+	/** Caption under the center total */
+	centerLabel?: string;
+	/** Palette start - the remaining presets follow for later slices (default: cyan) */
+	accentPreset?: AccentPreset;
+	/** Controlled ids of slices hidden from the legend */
+	hiddenSlices?: string[];
+	/** Initial hidden slices for uncontrolled usage */
+	defaultHiddenSlices?: string[];
+	/** Callback when a legend item is toggled */
+	onHiddenSlicesChange?: (ids: string[]) => void;
+	/** Largest donut diameter in pixels - smaller containers shrink it */
+	size?: number;
+	/** Ring thickness as a fraction of the radius */
+	thickness?: number;
+	/** Show the clickable legend */
+	showLegend?: boolean;
+	/** Accessible name for the chart, also the data table caption */
+	title?: string;
+	/** Additional CSS classes */
+	className?: string;
+}
+
+interface DisplaySlice extends DonutSlice {
+	color: string;
+	/** Original slices merged into "Other" */
+	members?: DonutSlice[];
+}
+
+interface SliceArc {
+	slice: DisplaySlice;
+	startAngle: number;
+	endAngle: number;
+	share: number;
+}
+
+// ─── Constants ───
+const OTHER_ID = '__other';
+const OTHER_COLOR = 'var(--text-muted)';
+/** Slices narrower than this (radians) are too thin for a label */
+const MIN_LABEL_ANGLE = 0.35;
+/** How far the hovered slice grows outward */
+const HOVER_OFFSET = 6;
+
+// ─── Helpers ───
+function getSliceValue(slice: DonutSlice): number {
+	return Math.max(0, slice.value);
+}
+
+/** Assigns palette colors by position, then merges slices under the threshold into "Other" */
+function getDisplaySlices(
+	data: DonutSlice[],
+	palette: string[],
+	threshold: number,
+	otherLabel: string
+): DisplaySlice[] {
+	const slices = data.map((slice, index) => ({ ...slice, color: slice.color ?? palette[index] }));
+	const total = slices.reduce((sum, slice) => sum + getSliceValue(slice), 0);
+	if (threshold <= 0 || total === 0) return slices;
+
+	const small = slices.filter(slice => getSliceValue(slice) / total < threshold);
+	// Merging a single slice would only rename it
+	if (small.length < 2) return slices;
+
+	return [
+		...slices.filter(slice => !small.includes(slice)),
+		{
+			id: OTHER_ID,
+			label: otherLabel,
+			value: small.reduce((sum, slice) => sum + getSliceValue(slice), 0),
+			color: OTHER_COLOR,
+			members: small,
+		},
+	];
+}
+
+/** Lays slices end to end clockwise from 12 o'clock */
+function getSliceArcs(slices: DisplaySlice[], total: number): SliceArc[] {
+	let angle = 0;
+	return slices.map(slice => {
+		const share = total > 0 ? getSliceValue(slice) / total : 0;
+		const startAngle = angle;
+		angle += share * Math.PI * 2;
+		return { slice, startAngle, endAngle: angle, share };
+	});
+}
+
+// ─── Component ───
+export function DonutChart({
+	data,
+	labelMode = 'percent',
+	formatValue = formatPlain,
+	otherThreshold = 0,
+	otherLabel = 'Other',
+	centerLabel = 'Total',
+	accentPreset = 'cyan',
+	hiddenSlices: controlledHiddenSlices,
+	defaultHiddenSlices = [],
+	onHiddenSlicesChange,
+	size = 240,
+	thickness = 0.35,
+	showLegend = true,
+	title,
+	className = '',
+}: DonutChartProps) {
+	const { ref, width } = useElementSize();
+	const [activeId, setActiveId] = useState<string | null>(null);
+
+	// ─── Hidden Slice State ───
+	const { value: hiddenSlices, setValue: setHiddenSlices } = useControllableState({
+		value: controlledHiddenSlices,
+		defaultValue: defaultHiddenSlices,
+		onChange: onHiddenSlicesChange,
+	});
+
+	const toggleSlice = (id: string) => {
+		setHiddenSlices(hiddenSlices.includes(id)
+			? hiddenSlices.filter(hiddenId => hiddenId !== id)
+			: [...hiddenSlices, id]);
+	};
+
+	// ─── Data ───
+	const slices = getDisplaySlices(data, createChartPalette(data.length, accentPreset), otherThreshold, otherLabel);
+	const visibleSlices = slices.filter(slice => !hiddenSlices.includes(slice.id));
+	const total = visibleSlices.reduce((sum, slice) => sum + getSliceValue(slice), 0);
+
+	const arcs = getSliceArcs(visibleSlices, total);
+
+	const formatLabel = (value: number, share: number) =>
+		labelMode === 'value' ? formatValue(value) : formatPercent(share);
+
+	// ─── Geometry ───
+	const diameter = Math.min(size, width);
+	const center = diameter / 2;
+	const outerRadius = Math.max(0, center - HOVER_OFFSET);
+	const innerRadius = outerRadius * (1 - thickness);
+
+	// ─── Hover & Keyboard ───
+	const activeArc = arcs.find(arc => arc.slice.id === activeId) ?? null;
+
+	const handleKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+		const current = activeArc ? arcs.indexOf(activeArc) : null;
+		const next = getNextIndex(event.key, current, arcs.length);
+		if (next === null) return;
+		event.preventDefault();
+		setActiveId(arcs[next].slice.id);
+	};
+
+	/** Tooltip row for a slice, or for each slice merged into "Other" */
+	const getTooltipItem = (slice: DonutSlice, color: string): ChartTooltipItem => {
+		const share = total > 0 ? getSliceValue(slice) / total : 0;
+		return {
+			id: slice.id,
+			name: slice.label,
+			color: slice.color ?? color,
+			value: `${formatValue(getSliceValue(slice))} (${formatPercent(share)})`,
+		};
+	};
+
+	const getTooltipItems = ({ slice }: SliceArc): ChartTooltipItem[] => slice.members
+		? slice.members.map(member => getTooltipItem(member, slice.color))
+		: [getTooltipItem(slice, slice.color)];
+
+	const [tooltipX, tooltipY] = activeArc
+		? getPolarPoint(center, center, outerRadius, (activeArc.startAngle + activeArc.endAngle) / 2)
+		: [0, 0];
+
+	return (
+		<div className={`w-full flex flex-wrap items-center justify-center gap-6 ${className}`}>
+			<div ref={ref} className="relative flex-1 min-w-40" style={{ maxWidth: size, height: diameter || size }}>
+				{diameter > 0 && (
+					<svg
+						width={diameter}
+						height={diameter}
+						role="img"
+						aria-label={title ?? 'Donut chart'}
+						tabIndex={0}
+						onKeyDown={handleKeyDown}
+						onBlur={() => setActiveId(null)}
+						onPointerLeave={() => setActiveId(null)}
+						className="block mx-auto rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus"
+					>
+						{/* Empty Ring */}
+						{arcs.length === 0 || total === 0 ? (
+							<path
+								d={getArcPath(center, center, outerRadius, innerRadius, 0, Math.PI * 2)}
+								fill="var(--bg-hover)"
+							/>
+						) : (
+							arcs.map(arc => {
+								const isActive = arc.slice.id === activeId;
+								return (
+									<path
+										key={arc.slice.id}
+										d={getArcPath(
+											center,
+											center,
+											isActive ? outerRadius + HOVER_OFFSET : outerRadius,
+											innerRadius,
+											arc.startAngle,
+											arc.endAngle
+										)}
+										fill={arc.slice.color}
+										fillOpacity={activeId && !isActive ? 0.45 : 1}
+										stroke="var(--bg-elevated)"
+										strokeWidth={arcs.length > 1 ? 1.5 : 0}
+										className="transition-[fill-opacity] duration-[var(--transition-fast)]"
+										onPointerEnter={() => setActiveId(arc.slice.id)}
+									/>
+								);
+							})
+						)}
+
+						{/* Slice Labels */}
+						{labelMode !== 'none' && (
+							<g aria-hidden="true" pointerEvents="none">
+								{arcs.map(arc => {
+									if (arc.endAngle - arc.startAngle < MIN_LABEL_ANGLE) return null;
+									const [x, y] = getPolarPoint(center, center, (outerRadius + innerRadius) / 2, (arc.startAngle + arc.endAngle) / 2);
+									return (
+										<text
+											key={arc.slice.id}
+											x={x}
+											y={y}
+											dy="0.32em"
+											textAnchor="middle"
+											fontSize={11}
+											fontWeight={600}
+											fill="var(--accent-on-primary)"
+										>
+											{formatLabel(getSliceValue(arc.slice), arc.share)}
+										</text>
+									);
+								})}
+							</g>
+						)}
+
+						{/* Center Total */}
+						<g aria-hidden="true" pointerEvents="none">
+							<text
+								x={center}
+								y={center}
+								textAnchor="middle"
+								fontSize={18}
+								fontWeight={600}
+								fill="var(--text-primary)"
+							>
+								{formatValue(total)}
+							</text>
+							<text
+								x={center}
+								y={center + 18}
+								textAnchor="middle"
+								fontSize={11}
+								fill="var(--text-muted)"
+							>
+								{centerLabel}
+							</text>
+						</g>
+					</svg>
+				)}
+
+				{/* Tooltip */}
+				{activeArc && (
+					<ChartTooltip
+						x={tooltipX}
+						y={tooltipY}
+						containerWidth={diameter}
+						title={activeArc.slice.label}
+						items={getTooltipItems(activeArc)}
+					/>
+				)}
+			</div>
+
+			{/* Legend - click to hide a slice, hover to highlight it */}
+			{showLegend && (
+				<ChartLegend
+					layout="column"
+					items={slices.map(slice => {
+						const share = total > 0 ? getSliceValue(slice) / total : 0;
+						return {
+							id: slice.id,
+							name: slice.label,
+							color: slice.color,
+							value: labelMode === 'none' || hiddenSlices.includes(slice.id)
+								? undefined
+								: formatLabel(getSliceValue(slice), share),
+						};
+					})}
+					hiddenIds={hiddenSlices}
+					onToggle={toggleSlice}
+					onHighlight={setActiveId}
+				/>
+			)}
+
+			{/* Accessible Data Table */}
+			<ChartDataTable
+				caption={title}
+				headers={['Slice', 'Value', 'Share']}
+				rows={arcs.map(({ slice, share }) => [slice.label, formatValue(getSliceValue(slice)), formatPercent(share)])}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,330 @@
+// ─────────────────────────────────────────────────────────────
+// Component: FanChart
+// Purpose: Responsive SVG fan chart of projection percentiles as nested shaded bands around a median line.
+// Layer: Data Visualization
+// Used by: Monte Carlo retirement and drawdown projections.
+// Dependencies: useElementSize, ChartAxis, ChartDataTable, ChartTooltip, chartUtils.
+// ─────────────────────────────────────────────────────────────
+
+import type { KeyboardEvent, PointerEvent } from 'react';
+import { useState } from 'react';
+import { useElementSize } from '../../hooks/useElementSize';
+import { ChartAxis } from './ChartAxis';
+import { ChartDataTable } from './ChartDataTable';
+import { ChartTooltip, type ChartTooltipItem } from './ChartTooltip';
+import {
+	createLinearScale,
+	createXAxis,
+	formatCompact,
+	formatPlain,
+	getAreaPath,
+	getDomainTicks,
+	getExtent,
+	getLinePath,
+	getNearestIndex,
+	getNextIndex,
+	getPlotArea,
+	type ChartAxisType,
+} from './chartUtils';
+
+// ─── Types ───
+export interface FanPercentile<T> {
+	/** Percentile between 0 and 100, e.g. 5 or 95 */
+	percentile: number;
+	/** Value at this percentile for a row */
+	value: (row: T) => number | null | undefined;
+	/** Name in the tooltip (default: ordinal such as "95th", or "Median" for 50) */
+	name?: string;
+}
+
+export interface FanChartProps<T> {
+	/** Rows plotted left to right, ordered by x - typically one per year */
+	data: T[];
+	/** X value for a row - Dates switch the axis to time */
+	x: (row: T) => number | Date;
+	/** Percentile series - each p is shaded as a band with 100 - p (5/95, 25/75) and 50 is drawn as the median line; percentiles without a partner are only listed */
+	percentiles: FanPercentile<T>[];
+	/** Horizontal target line, e.g. the pot needed to retire */
+	target?: number;
+	/** Label for the target line */
+	targetLabel?: string;
+	/** Band and median color (default: accent) */
+	color?: string;
+	/** X axis scale (default: time when x returns Dates, otherwise linear) */
+	xType?: ChartAxisType;
+	/** Formats x values for ticks and the tooltip heading - time axes pass a Date */
+	formatX?: (value: number | Date) => string;
+	/** Formats values for ticks and the tooltip */
+	formatY?: (value: number) => string;
+	/** Fixed y range - defaults to round numbers around the data and target */
+	yDomain?: [number, number];
+	/** Chart height in pixels - the width follows the container */
+	height?: number;
+	/** Horizontal gridlines at each y tick */
+	showGrid?: boolean;
+	/** Accessible name for the chart, also the data table caption */
+	title?: string;
+	/** Header for the x column of the accessible data table */
+	xLabel?: string;
+	/** Additional CSS classes */
+	className?: string;
+}
+
+// ─── Constants ───
+// Outer bands are faintest; overlapping inner bands build up toward the median
+const OUTER_BAND_OPACITY = 0.12;
+const INNER_BAND_OPACITY = 0.28;
+const TARGET_COLOR = 'var(--color-warning)';
+
+// ─── Helpers ───
+function getPercentileName(percentile: number): string {
+	if (percentile === 50) return 'Median';
+	const tens = percentile % 100;
+	const suffix = tens >= 11 && tens <= 13
+		? 'th'
+		: ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[percentile % 10] ?? 'th';
+	return `${percentile}${suffix}`;
+}
+
+function getBandOpacity(bandIndex: number, bandCount: number): number {
+	if (bandCount <= 1) return INNER_BAND_OPACITY;
+	return OUTER_BAND_OPACITY + (INNER_BAND_OPACITY - OUTER_BAND_OPACITY) * (bandIndex / (bandCount - 1));
+}
+
+// ─── Component ───
+export function FanChart<T>({
+	data,
+	x,
+	percentiles,
+	target,
+	targetLabel = 'Target',
+	color = 'var(--accent-primary)',
+	xType,
+	formatX,
+	formatY,
+	yDomain,
+	height = 300,
+	showGrid = true,
+	title,
+	xLabel = 'Year',
+	className = '',
+}: FanChartProps<T>) {
+	const { ref, width } = useElementSize();
+	const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+	// ─── Data ───
+	const rawXs = data.map(x);
+	const isTime = xType ? xType === 'time' : rawXs[0] instanceof Date;
+	const xs = rawXs.map(value => value instanceof Date ? value.getTime() : value);
+	const sorted = [...percentiles].sort((a, b) => a.percentile - b.percentile);
+	const values = sorted.map(item => data.map(row => item.value(row) ?? null));
+
+	// Each lower percentile pairs with its mirror (5 with 95), outermost band first
+	const bands = sorted.flatMap((item, lower) => {
+		const upper = sorted.findIndex(other => other.percentile === 100 - item.percentile);
+		return item.percentile < 50 && upper !== -1 ? [{ lower, upper }] : [];
+	});
+	const bandCount = bands.length;
+	const medianPosition = sorted.findIndex(item => item.percentile === 50);
+	const medianIndex = medianPosition === -1 ? null : medianPosition;
+	const getName = (item: FanPercentile<T>) => item.name ?? getPercentileName(item.percentile);
+
+	// ─── Scales ───
+	const extent = getExtent([...values.flat(), target]) ?? [0, 1];
+	const { ticks: yTicks, domain } = getDomainTicks(extent[0], extent[1], yDomain);
+	const formatYTick = formatY ?? formatCompact;
+	const formatYValue = formatY ?? formatPlain;
+
+	const plot = getPlotArea(width, height, yTicks.map(formatYTick));
+	const plotRight = plot.left + plot.width;
+	const yScale = createLinearScale(domain, [plot.top + plot.height, plot.top]);
+	const xAxis = createXAxis(xs, plot, isTime, formatX);
+	const positions = xs.map(xAxis.scale);
+	const toY = (value: number | null) => value === null ? null : yScale(value);
+
+	// ─── Hover & Keyboard ───
+	const active = activeIndex !== null && activeIndex < data.length ? activeIndex : null;
+
+	const handlePointerMove = (event: PointerEvent<SVGRectElement>) => {
+		const bounds = event.currentTarget.ownerSVGElement?.getBoundingClientRect();
+		if (!bounds || positions.length === 0) return;
+		setActiveIndex(getNearestIndex(positions, event.clientX - bounds.left));
+	};
+
+	const handleKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+		const next = getNextIndex(event.key, active, data.length);
+		if (next === null) return;
+		event.preventDefault();
+		setActiveIndex(next);
+	};
+
+	// Swatches use the shade of the band each percentile bounds, strengthened to read on the dark tooltip
+	const getSwatchColor = (index: number) => {
+		if (index === medianIndex) return color;
+		// Unpaired percentiles take the outermost shade
+		const bandIndex = Math.max(0, bands.findIndex(band => band.lower === index || band.upper === index));
+		const strength = Math.round(getBandOpacity(bandIndex, bandCount) * 100 * 2);
+		return `color-mix(in srgb, ${color} ${strength}%, transparent)`;
+	};
+
+	const activeX = active !== null ? positions[active] : 0;
+	// Highest percentile first, reading top to bottom like the chart
+	const tooltipItems: ChartTooltipItem[] = active === null ? [] : sorted.map((item, index) => {
+		const value = values[index][active];
+		return {
+			id: String(item.percentile),
+			name: getName(item),
+			color: getSwatchColor(index),
+			value: value === null ? '—' : formatYValue(value),
+		};
+	}).reverse();
+	if (active !== null && target !== undefined) {
+		tooltipItems.push({ id: '__target', name: targetLabel, color: TARGET_COLOR, value: formatYValue(target) });
+	}
+
+	return (
+		<div className={`w-full ${className}`}>
+			<div ref={ref} className="relative" style={{ height }}>
+				{width > 0 && (
+					<svg
+						width={width}
+						height={height}
+						role="img"
+						aria-label={title ?? 'Fan chart'}
+						tabIndex={0}
+						onKeyDown={handleKeyDown}
+						onBlur={() => setActiveIndex(null)}
+						className="block rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus"
+					>
+						{/* Axes */}
+						<ChartAxis
+							position="left"
+							ticks={yTicks.map(tick => ({ position: yScale(tick), label: formatYTick(tick) }))}
+							plot={plot}
+							grid={showGrid}
+						/>
+						<ChartAxis position="bottom" ticks={xAxis.ticks} plot={plot} />
+
+						{/* Bands - outermost first so inner bands layer on top */}
+						{bands.map((band, bandIndex) => {
+							const lower = values[band.lower];
+							const upper = values[band.upper];
+							return (
+								<path
+									key={bandIndex}
+									d={getAreaPath(positions.map((position, index) => ({
+										x: position,
+										y0: toY(lower[index]),
+										y1: toY(upper[index]),
+									})))}
+									fill={color}
+									fillOpacity={getBandOpacity(bandIndex, bandCount)}
+								/>
+							);
+						})}
+
+						{/* Median Line */}
+						{medianIndex !== null && (
+							<path
+								d={getLinePath(positions.map((position, index) => ({ x: position, y: toY(values[medianIndex][index]) })))}
+								fill="none"
+								stroke={color}
+								strokeWidth={2}
+								strokeLinejoin="round"
+								strokeLinecap="round"
+							/>
+						)}
+
+						{/* Target Line */}
+						{target !== undefined && (
+							<g>
+								<line
+									x1={plot.left}
+									x2={plotRight}
+									y1={yScale(target)}
+									y2={yScale(target)}
+									stroke={TARGET_COLOR}
+									strokeWidth={1.5}
+									strokeDasharray="6 4"
+								/>
+								<text
+									x={plotRight}
+									y={yScale(target) - 4}
+									textAnchor="end"
+									fontSize={11}
+									fontWeight={600}
+									fill={TARGET_COLOR}
+								>
+									{targetLabel}
+								</text>
+							</g>
+						)}
+
+						{/* Crosshair */}
+						{active !== null && (
+							<g aria-hidden="true" pointerEvents="none">
+								<line
+									x1={activeX}
+									x2={activeX}
+									y1={plot.top}
+									y2={plot.top + plot.height}
+									stroke="var(--text-muted)"
+									strokeDasharray="4 4"
+								/>
+								{sorted.map((item, index) => {
+									const y = toY(values[index][active]);
+									return y !== null && (
+										<circle
+											key={item.percentile}
+											cx={activeX}
+											cy={y}
+											r={index === medianIndex ? 4 : 3}
+											fill={color}
+											stroke="var(--bg-elevated)"
+											strokeWidth={index === medianIndex ? 2 : 1}
+										/>
+									);
+								})}
+							</g>
+						)}
+
+						{/* Hover Target */}
+						<rect
+							x={plot.left}
+							y={plot.top}
+							width={plot.width}
+							height={plot.height}
+							fill="transparent"
+							onPointerMove={handlePointerMove}
+							onPointerLeave={() => setActiveIndex(null)}
+						/>
+					</svg>
+				)}
+
+				{/* Tooltip */}
+				{active !== null && (
+					<ChartTooltip
+						x={activeX}
+						y={plot.top + plot.height / 2}
+						containerWidth={width}
+						title={xAxis.formatHeading(xs[active])}
+						items={tooltipItems}
+					/>
+				)}
+			</div>
+
+			{/* Accessible Data Table */}
+			<ChartDataTable
+				caption={title}
+				headers={[xLabel, ...[...sorted].reverse().map(getName)]}
+				rows={xs.map((xValue, index) => [
+					xAxis.formatHeading(xValue),
+					...[...values].reverse().map(percentileValues => {
+						const value = percentileValues[index];
+						return value === null ? '—' : formatYValue(value);
+					}),
+				])}
+			/>
+		</div>
+	);
+}
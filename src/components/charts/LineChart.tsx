@@ -0,0 +1,333 @@
+// ─────────────────────────────────────────────────────────────
+// Component: LineChart, AreaChart
+// Purpose: Responsive SVG line and area charts with linear or time x axes, multiple series, stacking and a hover crosshair.
+// Layer: Data Visualization
+// Used by: Financial projections, balances and income over time.
+// Dependencies: useElementSize, ChartAxis, ChartDataTable, ChartLegend, ChartTooltip, chartUtils.
+// ─────────────────────────────────────────────────────────────
+
+import type { KeyboardEvent, PointerEvent } from 'react';
+import { useState } from 'react';
+import { useElementSize } from '../../hooks/useElementSize';
+import { ChartAxis } from './ChartAxis';
+import { ChartDataTable } from './ChartDataTable';
+import { ChartLegend } from './ChartLegend';
+import { ChartTooltip } from './ChartTooltip';
+import {
+	createLinearScale,
+	createXAxis,
+	formatCompact,
+	formatPlain,
+	getAreaPath,
+	getDomainTicks,
+	getExtent,
+	getLinePath,
+	getNearestIndex,
+	getNextIndex,
+	getPlotArea,
+	getSeriesColor,
+	stackSeries,
+	type BandPoint,
+	type ChartAxisType,
+	type ChartSeries,
+} from './chartUtils';
+
+// ─── Types ───
+export interface CartesianChartProps<T> {
+	/** Rows plotted left to right, ordered by x */
+	data: T[];
+	/** X value for a row - Dates switch the axis to time */
+	x: (row: T) => number | Date;
+	/** Series drawn from each row */
+	series: ChartSeries<T>[];
+	/** X axis scale (default: time when x returns Dates, otherwise linear) */
+	xType?: ChartAxisType;
+	/** Formats x values for ticks and the tooltip heading - time axes pass a Date */
+	formatX?: (value: number | Date) => string;
+	/** Formats y values for ticks and the tooltip */
+	formatY?: (value: number) => string;
+	/** Fixed y range - defaults to round numbers around the data */
+	yDomain?: [number, number];
+	/** Chart height in pixels - the width follows the container */
+	height?: number;
+	/** Horizontal gridlines at each y tick */
+	showGrid?: boolean;
+	/** Show the series legend (default: when there is more than one series) */
+	showLegend?: boolean;
+	/** Accessible name for the chart, also the data table caption */
+	title?: string;
+	/** Header for the x column of the accessible data table (default: "Date" on time axes, otherwise "X") */
+	xLabel?: string;
+	/** Additional CSS classes */
+	className?: string;
+}
+
+export interface LineChartProps<T> extends CartesianChartProps<T> {
+	/** Mark each data point */
+	showPoints?: boolean;
+}
+
+export interface AreaChartProps<T> extends CartesianChartProps<T> {
+	/** Stack series on top of each other */
+	stacked?: boolean;
+	/** Fill opacity (default: 0.2, or 0.4 when stacked) */
+	fillOpacity?: number;
+}
+
+interface SeriesChartProps<T> extends LineChartProps<T>, AreaChartProps<T> {
+	variant: 'line' | 'area';
+}
+
+// ─── Shared Chart ───
+function SeriesChart<T>({
+	data,
+	x,
+	series,
+	xType,
+	formatX,
+	formatY,
+	yDomain,
+	height = 300,
+	showGrid = true,
+	showLegend = series.length > 1,
+	title,
+	xLabel,
+	className = '',
+	variant,
+	showPoints = false,
+	stacked = false,
+	fillOpacity = stacked ? 0.4 : 0.2,
+}: SeriesChartProps<T>) {
+	const { ref, width } = useElementSize();
+	const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+	// ─── Data ───
+	const rawXs = data.map(x);
+	const isTime = xType ? xType === 'time' : rawXs[0] instanceof Date;
+	const xs = rawXs.map(value => value instanceof Date ? value.getTime() : value);
+	const colors = series.map((item, index) => item.color ?? getSeriesColor(index));
+	const values = series.map(item => data.map(row => item.value(row) ?? null));
+
+	// Areas fill between a lower and upper edge - the baseline, or the series below when stacked
+	const bands: BandPoint[][] | null = variant === 'area'
+		? stacked
+			? stackSeries(xs, values)
+			: values.map(seriesValues => xs.map((xValue, index) => ({ x: xValue, y0: 0, y1: seriesValues[index] })))
+		: null;
+
+	// ─── Scales ───
+	const extent = getExtent(bands ? bands.flat().flatMap(point => [point.y0, point.y1]) : values.flat()) ?? [0, 1];
+	// Areas fill down to zero, so keep zero in view
+	const [yMin, yMax] = variant === 'area' ? [Math.min(0, extent[0]), Math.max(0, extent[1])] : extent;
+	const { ticks: yTicks, domain: [domainMin, domainMax] } = getDomainTicks(yMin, yMax, yDomain);
+	const formatYTick = formatY ?? formatCompact;
+	const formatYValue = formatY ?? formatPlain;
+
+	const plot = getPlotArea(width, height, yTicks.map(formatYTick));
+	const yScale = createLinearScale([domainMin, domainMax], [plot.top + plot.height, plot.top]);
+	const xAxis = createXAxis(xs, plot, isTime, formatX);
+	const positions = xs.map(xAxis.scale);
+
+	// ─── Hover & Keyboard ───
+	const active = activeIndex !== null && activeIndex < data.length ? activeIndex : null;
+
+	const handlePointerMove = (event: PointerEvent<SVGRectElement>) => {
+		const bounds = event.currentTarget.ownerSVGElement?.getBoundingClientRect();
+		if (!bounds || positions.length === 0) return;
+		setActiveIndex(getNearestIndex(positions, event.clientX - bounds.left));
+	};
+
+	const handleKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+		const next = getNextIndex(event.key, active, data.length);
+		if (next === null) return;
+		event.preventDefault();
+		setActiveIndex(next);
+	};
+
+	// Stacked series mark the top of their band, others their own value
+	const getActiveY = (seriesIndex: number, index: number): number | null => {
+		const value = values[seriesIndex][index];
+		if (value === null) return null;
+		return bands ? bands[seriesIndex][index].y1 : value;
+	};
+
+	const activeX = active !== null ? positions[active] : 0;
+
+	return (
+		<div className={`w-full ${className}`}>
+			<div ref={ref} className="relative" style={{ height }}>
+				{width > 0 && (
+					<svg
+						width={width}
+						height={height}
+						role="img"
+						aria-label={title ?? 'Chart'}
+						tabIndex={0}
+						onKeyDown={handleKeyDown}
+						onBlur={() => setActiveIndex(null)}
+						className="block rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus"
+					>
+						{/* Axes */}
+						<ChartAxis
+							position="left"
+							ticks={yTicks.map(tick => ({ position: yScale(tick), label: formatYTick(tick) }))}
+							plot={plot}
+							grid={showGrid}
+						/>
+						<ChartAxis
+							position="bottom"
+							ticks={xAxis.ticks}
+							plot={plot}
+						/>
+
+						{/* Zero Line - emphasised when values cross zero */}
+						{domainMin < 0 && domainMax > 0 && (
+							<line
+								x1={plot.left}
+								x2={plot.left + plot.width}
+								y1={yScale(0)}
+								y2={yScale(0)}
+								stroke="var(--border-default)"
+							/>
+						)}
+
+						{/* Series */}
+						{series.map((item, seriesIndex) => {
+							const color = colors[seriesIndex];
+
+							if (bands) {
+								const band = bands[seriesIndex].map((point, index) => ({
+									x: positions[index],
+									y0: point.y0 === null ? null : yScale(point.y0),
+									y1: point.y1 === null ? null : yScale(point.y1),
+								}));
+
+								return (
+									<g key={item.id}>
+										<path d={getAreaPath(band)} fill={color} fillOpacity={fillOpacity} />
+										<path
+											d={getLinePath(band.map(point => ({ x: point.x, y: point.y1 })))}
+											fill="none"
+											stroke={color}
+											strokeWidth={2}
+											strokeLinejoin="round"
+										/>
+									</g>
+								);
+							}
+
+							const points = values[seriesIndex].map((value, index) => ({
+								x: positions[index],
+								y: value === null ? null : yScale(value),
+							}));
+
+							return (
+								<g key={item.id}>
+									<path
+										d={getLinePath(points)}
+										fill="none"
+										stroke={color}
+										strokeWidth={2}
+										strokeLinejoin="round"
+										strokeLinecap="round"
+									/>
+									{showPoints && points.map((point, index) => point.y !== null && (
+										<circle key={index} cx={point.x} cy={point.y} r={3} fill={color} />
+									))}
+								</g>
+							);
+						})}
+
+						{/* Crosshair */}
+						{active !== null && (
+							<g aria-hidden="true" pointerEvents="none">
+								<line
+									x1={activeX}
+									x2={activeX}
+									y1={plot.top}
+									y2={plot.top + plot.height}
+									stroke="var(--text-muted)"
+									strokeDasharray="4 4"
+								/>
+								{series.map((item, seriesIndex) => {
+									const y = getActiveY(seriesIndex, active);
+									return y !== null && (
+										<circle
+											key={item.id}
+											cx={activeX}
+											cy={yScale(y)}
+											r={4}
+											fill={colors[seriesIndex]}
+											stroke="var(--bg-elevated)"
+											strokeWidth={2}
+										/>
+									);
+								})}
+							</g>
+						)}
+
+						{/* Hover Target */}
+						<rect
+							x={plot.left}
+							y={plot.top}
+							width={plot.width}
+							height={plot.height}
+							fill="transparent"
+							onPointerMove={handlePointerMove}
+							onPointerLeave={() => setActiveIndex(null)}
+						/>
+					</svg>
+				)}
+
+				{/* Tooltip */}
+				{active !== null && (
+					<ChartTooltip
+						x={activeX}
+						y={plot.top + plot.height / 2}
+						containerWidth={width}
+						title={xAxis.formatHeading(xs[active])}
+						items={series.map((item, seriesIndex) => {
+							const value = values[seriesIndex][active];
+							return {
+								id: item.id,
+								name: item.name,
+								color: colors[seriesIndex],
+								value: value === null ? '—' : formatYValue(value),
+							};
+						})}
+					/>
+				)}
+			</div>
+
+			{/* Legend */}
+			{showLegend && (
+				<ChartLegend
+					items={series.map((item, seriesIndex) => ({ id: item.id, name: item.name, color: colors[seriesIndex] }))}
+				/>
+			)}
+
+			{/* Accessible Data Table */}
+			<ChartDataTable
+				caption={title}
+				headers={[xLabel ?? (isTime ? 'Date' : 'X'), ...series.map(item => item.name)]}
+				rows={xs.map((xValue, index) => [
+					xAxis.formatHeading(xValue),
+					...values.map(seriesValues => {
+						const value = seriesValues[index];
+						return value === null ? '—' : formatYValue(value);
+					}),
+				])}
+			/>
+		</div>
+	);
+}
+
+// ─── Line Chart ───
+export function LineChart<T>(props: LineChartProps<T>) {
+	return <SeriesChart {...props} variant="line" />;
+}
+
+// ─── Area Chart ───
+export function AreaChart<T>(props: AreaChartProps<T>) {
+	return <SeriesChart {...props} variant="area" />;
+}
@@ -0,0 +1,286 @@
+// ─────────────────────────────────────────────────────────────
+// Component: WaterfallChart
+// Purpose: Responsive SVG waterfall chart showing how increases and decreases build from one total to the next.
+// Layer: Data Visualization
+// Used by: Gross-to-net income breakdowns, allowance and tax band walkthroughs.
+// Dependencies: useElementSize, ChartAxis, ChartDataTable, ChartTooltip, chartUtils.
+// ─────────────────────────────────────────────────────────────
+
+import type { KeyboardEvent } from 'react';
+import { useState } from 'react';
+import { useElementSize } from '../../hooks/useElementSize';
+import { ChartAxis } from './ChartAxis';
+import { ChartDataTable } from './ChartDataTable';
+import { ChartTooltip } from './ChartTooltip';
+import {
+	createBandScale,
+	createLinearScale,
+	formatCompact,
+	formatPlain,
+	formatSigned,
+	getExtent,
+	getNextIndex,
+	getNiceTicks,
+	getPlotArea,
+} from './chartUtils';
+
+// ─── Types ───
+export interface WaterfallStep {
+	/** Step label, e.g. "Income tax" */
+	label: string;
+	/** Change for delta steps; for total steps, an optional value that resets the running total */
+	value?: number;
+	/** Deltas float from the running total, totals stand on zero (default: delta) */
+	type?: 'delta' | 'total';
+}
+
+export interface WaterfallChartProps {
+	/** Steps in order - typically a starting total, deltas, then a closing total */
+	data: WaterfallStep[];
+	/** Formats values for ticks, labels and the tooltip */
+	formatValue?: (value: number) => string;
+	/** Print each bar's value */
+	showValues?: boolean;
+	/** Dashed lines joining each bar to the next */
+	showConnectors?: boolean;
+	/** Color for increases (default: success token) */
+	positiveColor?: string;
+	/** Color for decreases (default: error token) */
+	negativeColor?: string;
+	/** Color for totals (default: accent) */
+	totalColor?: string;
+	/** Chart height in pixels - the width follows the container */
+	height?: number;
+	/** Horizontal gridlines at each value tick */
+	showGrid?: boolean;
+	/** Accessible name for the chart, also the data table caption */
+	title?: string;
+	/** Additional CSS classes */
+	className?: string;
+}
+
+interface WaterfallBar {
+	from: number;
+	to: number;
+	/** Change shown for the step - the bar height for deltas, the total itself for totals */
+	value: number;
+	kind: 'increase' | 'decrease' | 'total';
+}
+
+// ─── Running Totals ───
+function getWaterfallBars(steps: WaterfallStep[]): WaterfallBar[] {
+	let running = 0;
+	return steps.map(step => {
+		if (step.type === 'total') {
+			running = step.value ?? running;
+			return { from: 0, to: running, value: running, kind: 'total' };
+		}
+
+		const value = step.value ?? 0;
+		const from = running;
+		running += value;
+		return { from, to: running, value, kind: value < 0 ? 'decrease' : 'increase' };
+	});
+}
+
+// ─── Component ───
+export function WaterfallChart({
+	data,
+	formatValue,
+	showValues = true,
+	showConnectors = true,
+	positiveColor = 'var(--color-success)',
+	negativeColor = 'var(--color-error)',
+	totalColor = 'var(--accent-primary)',
+	height = 300,
+	showGrid = true,
+	title,
+	className = '',
+}: WaterfallChartProps) {
+	const { ref, width } = useElementSize();
+	const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+	// ─── Data ───
+	const bars = getWaterfallBars(data);
+	const colors = { increase: positiveColor, decrease: negativeColor, total: totalColor };
+
+	// ─── Scales ───
+	const extent = getExtent(bars.flatMap(bar => [bar.from, bar.to])) ?? [0, 1];
+	const valueTicks = getNiceTicks(Math.min(0, extent[0]), Math.max(0, extent[1]));
+	const domain: [number, number] = [valueTicks[0], valueTicks[valueTicks.length - 1]];
+	const formatTick = formatValue ?? formatCompact;
+	const formatLabel = formatValue ?? formatPlain;
+	const formatBarValue = (bar: WaterfallBar) =>
+		bar.kind === 'total' ? formatLabel(bar.value) : formatSigned(bar.value, formatLabel);
+
+	const plot = getPlotArea(width, height, valueTicks.map(formatTick));
+	const plotRight = plot.left + plot.width;
+	const valueScale = createLinearScale(domain, [plot.top + plot.height, plot.top]);
+	const band = createBandScale(data.length, [plot.left, plotRight], 0.25);
+	const getBandCenter = (index: number) => band.start(index) + band.bandwidth / 2;
+
+	// ─── Hover & Keyboard ───
+	const active = activeIndex !== null && activeIndex < data.length ? activeIndex : null;
+
+	const handleKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+		const next = getNextIndex(event.key, active, data.length);
+		if (next === null) return;
+		event.preventDefault();
+		setActiveIndex(next);
+	};
+
+	return (
+		<div className={`w-full ${className}`}>
+			<div ref={ref} className="relative" style={{ height }}>
+				{width > 0 && (
+					<svg
+						width={width}
+						height={height}
+						role="img"
+						aria-label={title ?? 'Waterfall chart'}
+						tabIndex={0}
+						onKeyDown={handleKeyDown}
+						onBlur={() => setActiveIndex(null)}
+						onPointerLeave={() => setActiveIndex(null)}
+						className="block rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus"
+					>
+						{/* Axes */}
+						<ChartAxis
+							position="left"
+							ticks={valueTicks.map(tick => ({ position: valueScale(tick), label: formatTick(tick) }))}
+							plot={plot}
+							grid={showGrid}
+						/>
+						<ChartAxis
+							position="bottom"
+							ticks={data.map((step, index) => ({ position: getBandCenter(index), label: step.label }))}
+							plot={plot}
+						/>
+
+						{/* Active Step Highlight */}
+						{active !== null && (
+							<rect
+								aria-hidden="true"
+								x={getBandCenter(active) - band.step / 2}
+								y={plot.top}
+								width={band.step}
+								height={plot.height}
+								fill="var(--bg-hover)"
+								fillOpacity={0.5}
+							/>
+						)}
+
+						{/* Zero Line */}
+						{domain[0] < 0 && (
+							<line x1={plot.left} x2={plotRight} y1={valueScale(0)} y2={valueScale(0)} stroke="var(--border-default)" />
+						)}
+
+						{/* Connectors - from each bar's end to the start of the next */}
+						{showConnectors && (
+							<g aria-hidden="true" stroke="var(--text-muted)" strokeDasharray="3 3">
+								{bars.slice(0, -1).map((bar, index) => (
+									<line
+										key={index}
+										x1={band.start(index) + band.bandwidth}
+										x2={band.start(index + 1)}
+										y1={valueScale(bar.to)}
+										y2={valueScale(bar.to)}
+									/>
+								))}
+							</g>
+						)}
+
+						{/* Bars */}
+						{bars.map((bar, index) => {
+							const top = valueScale(Math.max(bar.from, bar.to));
+							const bottom = valueScale(Math.min(bar.from, bar.to));
+							return (
+								<rect
+									key={index}
+									x={band.start(index)}
+									y={top}
+									width={band.bandwidth}
+									// Zero-height steps still show a hairline
+									height={Math.max(1, bottom - top)}
+									rx={2}
+									fill={colors[bar.kind]}
+								/>
+							);
+						})}
+
+						{/* Value Labels - above each bar, below it when it ends under zero */}
+						{showValues && (
+							<g aria-hidden="true">
+								{bars.map((bar, index) => {
+									const isBelow = Math.max(bar.from, bar.to) <= 0;
+									return (
+										<text
+											key={index}
+											x={getBandCenter(index)}
+											y={isBelow
+												? valueScale(Math.min(bar.from, bar.to)) + 12
+												: valueScale(Math.max(bar.from, bar.to)) - 4}
+											textAnchor="middle"
+											fontSize={11}
+											fill="var(--text-secondary)"
+										>
+											{formatBarValue(bar)}
+										</text>
+									);
+								})}
+							</g>
+						)}
+
+						{/* Hover Targets */}
+						{data.map((_, index) => (
+							<rect
+								key={index}
+								x={getBandCenter(index) - band.step / 2}
+								y={plot.top}
+								width={band.step}
+								height={plot.height}
+								fill="transparent"
+								onPointerEnter={() => setActiveIndex(index)}
+							/>
+						))}
+					</svg>
+				)}
+
+				{/* Tooltip */}
+				{active !== null && (
+					<ChartTooltip
+						x={getBandCenter(active)}
+						y={plot.top + plot.height / 2}
+						containerWidth={width}
+						title={data[active].label}
+						items={[
+							{
+								id: 'value',
+								name: bars[active].kind === 'total' ? 'Total' : 'Change',
+								color: colors[bars[active].kind],
+								value: formatBarValue(bars[active]),
+							},
+							...(bars[active].kind === 'total' ? [] : [{
+								id: 'running',
+								name: 'Running total',
+								color: 'transparent',
+								value: formatLabel(bars[active].to),
+							}]),
+						]}
+					/>
+				)}
+			</div>
+
+			{/* Accessible Data Table */}
+			<ChartDataTable
+				caption={title}
+				headers={['Step', 'Change', 'Running total']}
+				rows={data.map((step, index) => [
+					step.label,
+					bars[index].kind === 'total' ? '—' : formatSigned(bars[index].value, formatLabel),
+					formatLabel(bars[index].to),
+				])}
+			/>
+		</div>
+	);
+}
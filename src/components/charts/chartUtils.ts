@@ -0,0 +1,458 @@
+// ─────────────────────────────────────────────────────────────
+// Utilities: chartUtils
+// Purpose: Scales, tick generation, stacking, SVG path builders, keyboard stepping and color palettes for charts.
+// Layer: Data Visualization
+// Used by: LineChart, AreaChart, BarChart, WaterfallChart, FanChart, DonutChart.
+// ─────────────────────────────────────────────────────────────
+
+import { ACCENT_PRESETS, type AccentPreset } from '../../hooks/useTheme';
+
+// ─── Types ───
+export interface ChartSeries<T> {
+	/** Unique series id */
+	id: string;
+	/** Name shown in the legend and tooltip */
+	name: string;
+	/** Value for a row - null or undefined leaves a gap */
+	value: (row: T) => number | null | undefined;
+	/** Line and fill color - defaults to the theme palette */
+	color?: string;
+}
+
+/** Maps a domain value to a pixel position */
+export type ChartScale = (value: number) => number;
+
+export type ChartAxisType = 'linear' | 'time';
+
+/** A plotted point - null y leaves a gap in lines and areas */
+export interface PlotPoint {
+	x: number;
+	y: number | null;
+}
+
+/** A point on a filled band between a lower (y0) and upper (y1) edge */
+export interface BandPoint {
+	x: number;
+	y0: number | null;
+	y1: number | null;
+}
+
+/** Plot rectangle inside the SVG, after room for axis labels */
+export interface PlotArea {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+/** A labelled axis tick at a pixel position */
+export interface AxisTick {
+	position: number;
+	label: string;
+}
+
+/** Evenly spaced bands for categories */
+export interface BandScale {
+	/** Pixel offset where a category's bar starts */
+	start: (index: number) => number;
+	/** Bar thickness */
+	bandwidth: number;
+	/** Distance between consecutive categories, including padding */
+	step: number;
+}
+
+/** A bar running from one value to another (stacked bars don't start at zero) */
+export interface BarSpan {
+	from: number;
+	to: number;
+}
+
+export interface TimeTicks {
+	ticks: number[];
+	/** Formats a tick at the granularity the ticks were generated for */
+	format: (value: number) => string;
+}
+
+// ─── Palette ───
+// Theme tokens are redefined per data-theme and follow the chosen accent
+const SERIES_COLORS = [
+	'var(--accent-primary)',
+	'var(--accent-secondary)',
+	'var(--color-success)',
+	'var(--color-warning)',
+	'var(--color-error)',
+	'var(--text-secondary)',
+];
+
+/** Default color for the nth series */
+export function getSeriesColor(index: number): string {
+	return SERIES_COLORS[index % SERIES_COLORS.length];
+}
+
+// Stepping 4 presets at a time visits all 9 while keeping neighbouring colors apart
+const PRESET_STRIDE = 4;
+const LIGHTNESS_STEP = 15;
+
+/**
+ * Distinct colors built from ACCENT_PRESETS, starting at one preset.
+ * Past the ninth color the presets repeat darker, then lighter, and so on.
+ */
+export function createChartPalette(count: number, start: AccentPreset = 'cyan'): string[] {
+	const presets = Object.keys(ACCENT_PRESETS) as AccentPreset[];
+	const startIndex = presets.indexOf(start);
+
+	return Array.from({ length: count }, (_, index) => {
+		const preset = presets[(startIndex + index * PRESET_STRIDE) % presets.length];
+		const cycle = Math.floor(index / presets.length);
+		const [hue, saturation, lightness] = ACCENT_PRESETS[preset].split(' ');
+		const shift = cycle === 0 ? 0 : (cycle % 2 === 1 ? -1 : 1) * LIGHTNESS_STEP * Math.ceil(cycle / 2);
+		const shifted = Math.min(85, Math.max(20, parseFloat(lightness) + shift));
+		return `hsl(${hue} ${saturation} ${shifted}%)`;
+	});
+}
+
+// ─── Scales ───
+export function createLinearScale(domain: [number, number], range: [number, number]): ChartScale {
+	const [d0, d1] = domain;
+	const [r0, r1] = range;
+	const span = d1 - d0;
+	// A flat domain maps everything to the middle of the range
+	if (span === 0) return () => (r0 + r1) / 2;
+	return (value) => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+/** Splits a range into equal bands, leaving padding (a fraction of each step) between them */
+export function createBandScale(count: number, range: [number, number], padding = 0.2): BandScale {
+	const [r0, r1] = range;
+	const step = (r1 - r0) / Math.max(1, count);
+	const bandwidth = step * (1 - padding);
+	return {
+		start: (index) => r0 + index * step + (step - bandwidth) / 2,
+		bandwidth,
+		step,
+	};
+}
+
+/** Smallest and largest finite value, or null when there are none */
+export function getExtent(values: Array<number | null | undefined>): [number, number] | null {
+	let min = Infinity;
+	let max = -Infinity;
+	values.forEach(value => {
+		if (value === null || value === undefined || !Number.isFinite(value)) return;
+		min = Math.min(min, value);
+		max = Math.max(max, value);
+	});
+	return min === Infinity ? null : [min, max];
+}
+
+// ─── Linear Ticks ───
+/** Rounds a raw step to 1, 2, 5 or 10 times a power of ten */
+function getNiceStep(rawStep: number): number {
+	const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+	const normalized = rawStep / magnitude;
+	const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+	return nice * magnitude;
+}
+
+/** Evenly spaced round ticks that cover min-max - the first and last ticks make a nice domain */
+export function getNiceTicks(min: number, max: number, count = 5): number[] {
+	if (min === max) {
+		// Give flat data some room either side
+		const pad = min === 0 ? 1 : Math.abs(min) * 0.1;
+		min -= pad;
+		max += pad;
+	}
+
+	const step = getNiceStep((max - min) / Math.max(1, count));
+	const start = Math.floor(min / step) * step;
+	const end = Math.ceil(max / step) * step;
+	const ticks: number[] = [];
+	for (let i = 0; start + i * step <= end + step / 2; i++) {
+		// toPrecision trims floating point drift such as 0.30000000000000004
+		ticks.push(Number((start + i * step).toPrecision(12)));
+	}
+	return ticks;
+}
+
+// ─── Time Ticks ───
+type TimeUnit = 'day' | 'month' | 'year';
+
+interface TimeInterval {
+	unit: TimeUnit;
+	step: number;
+	/** Approximate length in milliseconds, used to pick an interval */
+	duration: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const TIME_INTERVALS: TimeInterval[] = [
+	{ unit: 'day', step: 1, duration: DAY },
+	{ unit: 'day', step: 7, duration: 7 * DAY },
+	{ unit: 'month', step: 1, duration: 30 * DAY },
+	{ unit: 'month', step: 3, duration: 91 * DAY },
+	{ unit: 'month', step: 6, duration: 182 * DAY },
+	...[1, 2, 5, 10, 25, 50, 100].map(step => ({ unit: 'year' as const, step, duration: step * 365 * DAY })),
+];
+
+const timeFormatters: Record<TimeUnit, Intl.DateTimeFormat> = {
+	day: new Intl.DateTimeFormat(undefined, { day: 'numeric', month: 'short' }),
+	month: new Intl.DateTimeFormat(undefined, { month: 'short', year: 'numeric' }),
+	year: new Intl.DateTimeFormat(undefined, { year: 'numeric' }),
+};
+
+/** Truncates a timestamp to the start of its interval (e.g. the start of a 5-year block) */
+function floorToInterval(value: number, { unit, step }: TimeInterval): Date {
+	const date = new Date(value);
+	if (unit === 'year') {
+		return new Date(Math.floor(date.getFullYear() / step) * step, 0, 1);
+	}
+	if (unit === 'month') {
+		return new Date(date.getFullYear(), Math.floor(date.getMonth() / step) * step, 1);
+	}
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addInterval(date: Date, { unit, step }: TimeInterval): Date {
+	if (unit === 'year') return new Date(date.getFullYear() + step, 0, 1);
+	if (unit === 'month') return new Date(date.getFullYear(), date.getMonth() + step, 1);
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + step);
+}
+
+/** Calendar-aligned ticks (days, months or years) within min-max */
+export function getTimeTicks(min: number, max: number, count = 6): TimeTicks {
+	const span = Math.max(max - min, 1);
+	const interval = TIME_INTERVALS.find(candidate => candidate.duration * count >= span)
+		?? TIME_INTERVALS[TIME_INTERVALS.length - 1];
+
+	const ticks: number[] = [];
+	for (let date = floorToInterval(min, interval); date.getTime() <= max; date = addInterval(date, interval)) {
+		if (date.getTime() >= min) ticks.push(date.getTime());
+	}
+
+	const formatter = timeFormatters[interval.unit];
+	return { ticks, format: (value) => formatter.format(value) };
+}
+
+/** Round ticks covering min-max, or the round ticks inside a fixed domain */
+export function getDomainTicks(min: number, max: number, fixed?: [number, number]): { ticks: number[]; domain: [number, number] } {
+	if (fixed) {
+		return {
+			ticks: getNiceTicks(fixed[0], fixed[1]).filter(tick => tick >= fixed[0] && tick <= fixed[1]),
+			domain: fixed,
+		};
+	}
+	const ticks = getNiceTicks(min, max);
+	return { ticks, domain: [ticks[0], ticks[ticks.length - 1]] };
+}
+
+// ─── Number Formatting ───
+const compactFormatter = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+const plainFormatter = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+/** Short axis label such as 1.2M or 450K */
+export function formatCompact(value: number): string {
+	return compactFormatter.format(value);
+}
+
+export function formatPlain(value: number): string {
+	return plainFormatter.format(value);
+}
+
+const percentFormatter = new Intl.NumberFormat(undefined, { style: 'percent', maximumFractionDigits: 1 });
+
+/** Formats a fraction (0.25) as a percentage (25%) */
+export function formatPercent(fraction: number): string {
+	return percentFormatter.format(fraction);
+}
+
+/** Prefixes + or − to a formatted magnitude */
+export function formatSigned(value: number, format: (value: number) => string): string {
+	const sign = value > 0 ? '+' : value < 0 ? '−' : '';
+	return `${sign}${format(Math.abs(value))}`;
+}
+
+// ─── Layout ───
+const AXIS_CHAR_WIDTH = 7;
+const AXIS_LABEL_GAP = 12;
+
+/** Plot area with a left margin wide enough for the longest y-axis label */
+export function getPlotArea(width: number, height: number, yLabels: string[]): PlotArea {
+	const top = 12;
+	const right = 16;
+	const bottom = 28;
+	const left = Math.max(...yLabels.map(label => label.length), 1) * AXIS_CHAR_WIDTH + AXIS_LABEL_GAP;
+	return {
+		left,
+		top,
+		width: Math.max(0, width - left - right),
+		height: Math.max(0, height - top - bottom),
+	};
+}
+
+// ─── X Axis ───
+/** Minimum horizontal room per x tick label */
+const X_TICK_SPACING = 80;
+
+export interface ContinuousXAxis {
+	/** Pixel position for an x value */
+	scale: ChartScale;
+	/** Labelled ticks along the bottom of the plot */
+	ticks: AxisTick[];
+	/** Tooltip heading for an x value */
+	formatHeading: (value: number) => string;
+}
+
+/** Linear or time x axis across the plot, with tick density following its width */
+export function createXAxis(
+	xs: number[],
+	plot: PlotArea,
+	isTime: boolean,
+	formatX?: (value: number | Date) => string
+): ContinuousXAxis {
+	const [xMin, xMax] = getExtent(xs) ?? [0, 1];
+	const scale = createLinearScale([xMin, xMax], [plot.left, plot.left + plot.width]);
+	const tickCount = Math.max(2, Math.floor(plot.width / X_TICK_SPACING));
+	const timeTicks = isTime ? getTimeTicks(xMin, xMax, tickCount) : null;
+	const tickValues = timeTicks
+		? timeTicks.ticks
+		: getNiceTicks(xMin, xMax, tickCount).filter(tick => tick >= xMin && tick <= xMax);
+
+	// Custom formatters receive Dates on time axes
+	const customFormat = formatX && ((value: number) => formatX(isTime ? new Date(value) : value));
+	const formatTick = customFormat ?? (timeTicks ? timeTicks.format : String);
+
+	return {
+		scale,
+		ticks: tickValues.map(tick => ({ position: scale(tick), label: formatTick(tick) })),
+		formatHeading: customFormat ?? (isTime ? (value) => new Date(value).toLocaleDateString() : String),
+	};
+}
+
+// ─── Stacking ───
+/** Cumulative bands for stacked series - gaps count as zero so the stack stays continuous */
+export function stackSeries(xs: number[], values: Array<Array<number | null>>): BandPoint[][] {
+	const totals = xs.map(() => 0);
+	return values.map(seriesValues => xs.map((x, index) => {
+		const y0 = totals[index];
+		totals[index] += seriesValues[index] ?? 0;
+		return { x, y0, y1: totals[index] };
+	}));
+}
+
+/** Bar spans per series - stacks build outward from zero, positive and negative values separately */
+export function getBarSpans(values: Array<Array<number | null>>, stacked: boolean): Array<Array<BarSpan | null>> {
+	if (!stacked) {
+		return values.map(seriesValues => seriesValues.map(value => value === null ? null : { from: 0, to: value }));
+	}
+
+	const count = values[0]?.length ?? 0;
+	const positiveTotals: number[] = Array(count).fill(0);
+	const negativeTotals: number[] = Array(count).fill(0);
+	return values.map(seriesValues => seriesValues.map((value, index) => {
+		if (value === null) return null;
+		const totals = value < 0 ? negativeTotals : positiveTotals;
+		const from = totals[index];
+		totals[index] += value;
+		return { from, to: totals[index] };
+	}));
+}
+
+// ─── Paths ───
+/** Splits points into runs without gaps */
+function getSegments<P>(points: P[], isGap: (point: P) => boolean): P[][] {
+	const segments: P[][] = [];
+	let current: P[] = [];
+	points.forEach(point => {
+		if (isGap(point)) {
+			if (current.length > 0) segments.push(current);
+			current = [];
+		} else {
+			current.push(point);
+		}
+	});
+	if (current.length > 0) segments.push(current);
+	return segments;
+}
+
+/** SVG path through pixel points, broken at null values */
+export function getLinePath(points: PlotPoint[]): string {
+	return getSegments(points, point => point.y === null)
+		.map(segment => segment.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(''))
+		.join('');
+}
+
+/** Closed SVG path filling between y0 and y1, broken where either edge is null */
+export function getAreaPath(points: BandPoint[]): string {
+	return getSegments(points, point => point.y0 === null || point.y1 === null)
+		.map(segment => {
+			const upper = segment.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x},${point.y1}`).join('');
+			const lower = [...segment].reverse().map(point => `L${point.x},${point.y0}`).join('');
+			return `${upper}${lower}Z`;
+		})
+		.join('');
+}
+
+/** Point on a circle - angles run clockwise from 12 o'clock */
+export function getPolarPoint(cx: number, cy: number, radius: number, angle: number): [number, number] {
+	return [cx + radius * Math.sin(angle), cy - radius * Math.cos(angle)];
+}
+
+/** Closed SVG path for a ring segment between two angles */
+export function getArcPath(
+	cx: number,
+	cy: number,
+	outerRadius: number,
+	innerRadius: number,
+	startAngle: number,
+	endAngle: number
+): string {
+	// A single arc can't draw a full circle, so split it in two
+	if (endAngle - startAngle >= Math.PI * 2 - 1e-6) {
+		const middle = startAngle + Math.PI;
+		return getArcPath(cx, cy, outerRadius, innerRadius, startAngle, middle)
+			+ getArcPath(cx, cy, outerRadius, innerRadius, middle, endAngle);
+	}
+
+	const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+	const [outerStartX, outerStartY] = getPolarPoint(cx, cy, outerRadius, startAngle);
+	const [outerEndX, outerEndY] = getPolarPoint(cx, cy, outerRadius, endAngle);
+	const [innerEndX, innerEndY] = getPolarPoint(cx, cy, innerRadius, endAngle);
+	const [innerStartX, innerStartY] = getPolarPoint(cx, cy, innerRadius, startAngle);
+
+	return `M${outerStartX},${outerStartY}`
+		+ `A${outerRadius},${outerRadius} 0 ${largeArc} 1 ${outerEndX},${outerEndY}`
+		+ `L${innerEndX},${innerEndY}`
+		+ `A${innerRadius},${innerRadius} 0 ${largeArc} 0 ${innerStartX},${innerStartY}Z`;
+}
+
+// ─── Hit Testing ───
+/** Index of the position closest to a pixel offset */
+export function getNearestIndex(positions: number[], target: number): number {
+	let nearest = 0;
+	positions.forEach((position, index) => {
+		if (Math.abs(position - target) < Math.abs(positions[nearest] - target)) nearest = index;
+	});
+	return nearest;
+}
+
+// ─── Keyboard Stepping ───
+/** Next active index for an arrow, Home or End key, or null for other keys */
+export function getNextIndex(key: string, current: number | null, count: number): number | null {
+	if (count === 0) return null;
+	const last = count - 1;
+	switch (key) {
+		case 'ArrowRight':
+		case 'ArrowDown':
+			return Math.min(last, (current ?? -1) + 1);
+		case 'ArrowLeft':
+		case 'ArrowUp':
+			return Math.max(0, (current ?? count) - 1);
+		case 'Home':
+			return 0;
+		case 'End':
+			return last;
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,17 @@
+// ─────────────────────────────────────────────────────────────
+// Barrel Export: Chart Components
+// Purpose: Single import point for SVG chart components.
+// ─────────────────────────────────────────────────────────────
+
+export {
+	LineChart,
+	AreaChart,
+	type CartesianChartProps,
+	type LineChartProps,
+	type AreaChartProps,
+} from './LineChart';
+export { BarChart, type BarChartProps, type BarOrientation } from './BarChart';
+export { WaterfallChart, type WaterfallChartProps, type WaterfallStep } from './WaterfallChart';
+export { FanChart, type FanChartProps, type FanPercentile } from './FanChart';
+export { DonutChart, type DonutChartProps, type DonutSlice, type DonutLabelMode } from './DonutChart';
+export { createChartPalette, type ChartSeries, type ChartAxisType } from './chartUtils';
@@ -0,0 +1,113 @@
+// ─────────────────────────────────────────────────────────────
+// Component: CellEditor
+// Purpose: Typed inline editor for a DataTable cell with commit/cancel keys.
+// Layer: Data Display
+// Used by: DataTable editable columns.
+// Dependencies: TextInput, NumberInput, Select.
+// ─────────────────────────────────────────────────────────────
+
+import type { KeyboardEvent } from 'react';
+import { TextInput } from '../ui/TextInput';
+import { NumberInput } from '../ui/NumberInput';
+import { Select } from '../ui/Select';
+import type { CellValue, ColumnEditorDef } from './DataTable';
+
+// ─── Types ───
+export interface CellEditorProps<T> {
+	/** Editor definition from the column */
+	editor: ColumnEditorDef<T>;
+	/** Draft value */
+	value: CellValue;
+	/** Callback when the draft changes */
+	onChange: (value: CellValue) => void;
+	/** Commit a value (Enter, blur, or a select choice) */
+	onCommit: (value: CellValue) => void;
+	/** Discard the draft (Escape) */
+	onCancel: () => void;
+	/** Validation error for the draft */
+	errorText?: string;
+	/** Accessible name for the editor */
+	label: string;
+}
+
+// ─── Component ───
+export function CellEditor<T>({
+	editor,
+	value,
+	onChange,
+	onCommit,
+	onCancel,
+	errorText,
+	label,
+}: CellEditorProps<T>) {
+	const handleKeyDown = (e: KeyboardEvent) => {
+		if (e.key === 'Enter') {
+			e.preventDefault();
+			onCommit(value);
+		} else if (e.key === 'Escape') {
+			e.preventDefault();
+			onCancel();
+		}
+		// Keep table-level keyboard handling out of the editor
+		e.stopPropagation();
+	};
+
+	switch (editor.type) {
+		case 'number':
+			return (
+				<NumberInput
+					size="sm"
+					hideControls
+					autoFocus
+					fullWidth
+					aria-label={label}
+					aria-invalid={Boolean(errorText)}
+					value={typeof value === 'number' ? value : undefined}
+					onChange={onChange}
+					onKeyDown={handleKeyDown}
+					onBlur={() => onCommit(value)}
+					min={editor.min}
+					max={editor.max}
+					step={editor.step}
+					placeholder={editor.placeholder}
+					errorText={errorText}
+				/>
+			);
+
+		case 'select':
+			return (
+				<Select
+					size="sm"
+					autoFocus
+					fullWidth
+					aria-label={label}
+					aria-invalid={Boolean(errorText)}
+					value={value === undefined ? '' : String(value)}
+					onChange={(e) => onCommit(e.target.value)}
+					onKeyDown={handleKeyDown}
+					onBlur={() => onCommit(value)}
+					options={editor.options ?? []}
+					placeholder={editor.placeholder}
+					errorText={errorText}
+				/>
+			);
+
+		case 'text':
+		default:
+			return (
+				<TextInput
+					size="sm"
+					autoFocus
+					fullWidth
+					aria-label={label}
+					aria-invalid={Boolean(errorText)}
+					value={value === undefined ? '' : String(value)}
+					onChange={(e) => onChange(e.target.value)}
+					onKeyDown={handleKeyDown}
+					onBlur={() => onCommit(value)}
+					placeholder={editor.placeholder}
+					errorText={errorText}
+				/>
+			);
+	}
+}
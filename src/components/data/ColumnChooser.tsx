@@ -0,0 +1,123 @@
+// ─────────────────────────────────────────────────────────────
+// Component: ColumnChooser
+// Purpose: Toolbar menu to show, hide and reorder DataTable columns.
+// Layer: Data Display
+// Used by: DataTable toolbar.
+// Dependencies: Button, IconButton, Checkbox, useAnchoredPopover, lucide-react icons.
+// ─────────────────────────────────────────────────────────────
+
+import { ArrowDown, ArrowUp, Columns3 } from 'lucide-react';
+import { useAnchoredPopover } from '../../hooks/useAnchoredPopover';
+import { Button } from '../ui/Button';
+import { IconButton } from '../ui/IconButton';
+import { Checkbox } from '../ui/Checkbox';
+
+// ─── Types ───
+export interface ColumnChooserItem {
+	/** Column id */
+	id: string;
+	/** Readable column name */
+	label: string;
+	/** Whether the column is shown */
+	visible: boolean;
+	/** Whether the column may be hidden */
+	hideable: boolean;
+}
+
+export interface ColumnChooserProps {
+	/** Columns in display order */
+	items: ColumnChooserItem[];
+	/** Callback when a column is shown or hidden */
+	onVisibilityChange: (columnId: string, visible: boolean) => void;
+	/** Callback to move a column one position earlier (-1) or later (1) */
+	onMove?: (columnId: string, direction: -1 | 1) => void;
+	/** Callback to restore the default layout */
+	onReset: () => void;
+}
+
+// ─── Component ───
+export function ColumnChooser({
+	items,
+	onVisibilityChange,
+	onMove,
+	onReset,
+}: ColumnChooserProps) {
+	const { anchorRef, popoverRef, position, toggle } = useAnchoredPopover({ align: 'end' });
+
+	// Keep at least one column on screen
+	const visibleCount = items.filter(item => item.visible).length;
+
+	return (
+		<>
+			<Button
+				ref={anchorRef}
+				variant="secondary"
+				size="sm"
+				leftIcon={<Columns3 size={14} />}
+				aria-haspopup="true"
+				aria-expanded={position !== null}
+				onClick={toggle}
+			>
+				Columns
+			</Button>
+
+			{position && (
+				<div
+					ref={popoverRef}
+					role="group"
+					aria-label="Show or hide columns"
+					className="
+            fixed z-50
+            max-h-80 overflow-auto
+            p-2
+            bg-bg-elevated
+            border border-border-default
+            rounded-md
+            shadow-lg
+            flex flex-col gap-1
+          "
+					style={position}
+				>
+					{items.map((item, index) => (
+						<div key={item.id} className="flex items-center justify-between gap-4 px-1">
+							<Checkbox
+								size="sm"
+								label={item.label}
+								checked={item.visible}
+								disabled={!item.hideable || (item.visible && visibleCount === 1)}
+								onChange={(e) => onVisibilityChange(item.id, e.target.checked)}
+							/>
+
+							{onMove && (
+								<div className="flex items-center">
+									<IconButton
+										icon={<ArrowUp size={12} />}
+										label={`Move ${item.label} earlier`}
+										variant="ghost"
+										size="sm"
+										disabled={index === 0}
+										onClick={() => onMove(item.id, -1)}
+									/>
+									<IconButton
+										icon={<ArrowDown size={12} />}
+										label={`Move ${item.label} later`}
+										variant="ghost"
+										size="sm"
+										disabled={index === items.length - 1}
+										onClick={() => onMove(item.id, 1)}
+									/>
+								</div>
+							)}
+						</div>
+					))}
+
+					<div className="mt-1 pt-2 border-t border-border-subtle">
+						<Button variant="ghost" size="sm" onClick={onReset}>
+							Reset layout
+						</Button>
+					</div>
+				</div>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,212 @@
+// ─────────────────────────────────────────────────────────────
+// Component: ColumnFilter
+// Purpose: Header filter control for a DataTable column (text, number range, enum, date range).
+// Layer: Data Display
+// Used by: DataTable filter row.
+// Dependencies: TextInput, NumberInput, Checkbox, lucide-react icons.
+// ─────────────────────────────────────────────────────────────
+
+import { ChevronDown } from 'lucide-react';
+import { useAnchoredPopover } from '../../hooks/useAnchoredPopover';
+import type { SelectOption } from '../ui/Select';
+import { TextInput } from '../ui/TextInput';
+import { NumberInput } from '../ui/NumberInput';
+import { Checkbox } from '../ui/Checkbox';
+import type { ColumnFilterDef, ColumnFilterValue } from './DataTable';
+
+// ─── Types ───
+export interface ColumnFilterProps<T> {
+	/** Filter definition from the column */
+	filter: ColumnFilterDef<T>;
+	/** Current filter value, undefined when inactive */
+	value: ColumnFilterValue | undefined;
+	/** Callback with the next value, undefined to clear */
+	onChange: (value: ColumnFilterValue | undefined) => void;
+	/** Options for enum filters (explicit or derived from data) */
+	options: SelectOption[];
+	/** Accessible column name */
+	label: string;
+}
+
+// ─── Enum Multi-Select ───
+function EnumFilter({
+	values,
+	options,
+	label,
+	onChange,
+}: {
+	values: string[];
+	options: SelectOption[];
+	label: string;
+	onChange: (values: string[]) => void;
+}) {
+	const { anchorRef, popoverRef, position, toggle } = useAnchoredPopover();
+
+	const toggleValue = (value: string) => {
+		onChange(values.includes(value)
+			? values.filter(v => v !== value)
+			: [...values, value]);
+	};
+
+	const summary = values.length === 0
+		? 'All'
+		: values.length === 1
+			? options.find(option => option.value === values[0])?.label ?? values[0]
+			: `${values.length} selected`;
+
+	return (
+		<>
+			<button
+				ref={anchorRef}
+				type="button"
+				aria-label={`Filter ${label}`}
+				aria-haspopup="true"
+				aria-expanded={position !== null}
+				onClick={toggle}
+				className={`
+          w-full
+          flex items-center justify-between gap-2
+          px-3 py-1.5
+          bg-bg-surface
+          border rounded-md
+          text-xs font-normal normal-case tracking-normal text-left
+          transition-colors duration-[var(--transition-fast)]
+          focus:outline-none focus:ring-2 focus:ring-accent-primary/30 focus:border-accent-primary
+          ${values.length > 0 ? 'border-accent-primary text-text-primary' : 'border-border-subtle text-text-muted hover:border-border-default'}
+        `}
+			>
+				<span className="truncate">{summary}</span>
+				<ChevronDown size={14} className="flex-shrink-0" />
+			</button>
+
+			{position && (
+				<div
+					ref={popoverRef}
+					role="group"
+					aria-label={`${label} options`}
+					className="
+            fixed z-50
+            max-h-64 overflow-auto
+            p-2
+            bg-bg-elevated
+            border border-border-default
+            rounded-md
+            shadow-lg
+            flex flex-col gap-2
+            normal-case tracking-normal font-normal
+          "
+					style={{ top: position.top, left: position.left, minWidth: position.minWidth }}
+				>
+					{options.map(option => (
+						<Checkbox
+							key={option.value}
+							size="sm"
+							label={option.label}
+							checked={values.includes(option.value)}
+							disabled={option.disabled}
+							onChange={() => toggleValue(option.value)}
+						/>
+					))}
+
+					{values.length > 0 && (
+						<button
+							type="button"
+							onClick={() => onChange([])}
+							className="text-xs text-accent-primary hover:underline text-left"
+						>
+							Clear
+						</button>
+					)}
+				</div>
+			)}
+		</>
+	);
+}
+
+// ─── Component ───
+export function ColumnFilter<T>({
+	filter,
+	value,
+	onChange,
+	options,
+	label,
+}: ColumnFilterProps<T>) {
+	switch (filter.type) {
+		case 'text': {
+			const text = value?.type === 'text' ? value.value : '';
+			return (
+				<TextInput
+					size="sm"
+					aria-label={`Filter ${label}`}
+					placeholder={filter.placeholder ?? 'Contains…'}
+					value={text}
+					onChange={(e) => onChange(e.target.value ? { type: 'text', value: e.target.value } : undefined)}
+				/>
+			);
+		}
+
+		case 'number': {
+			const range = value?.type === 'number' ? value : { type: 'number' as const };
+			const update = (min: number | undefined, max: number | undefined) => {
+				onChange(min === undefined && max === undefined ? undefined : { type: 'number', min, max });
+			};
+			return (
+				<div className="flex items-center gap-1">
+					<NumberInput
+						size="sm"
+						hideControls
+						aria-label={`${label} minimum`}
+						placeholder="Min"
+						value={range.min}
+						onChange={(min) => update(min, range.max)}
+					/>
+					<NumberInput
+						size="sm"
+						hideControls
+						aria-label={`${label} maximum`}
+						placeholder="Max"
+						value={range.max}
+						onChange={(max) => update(range.min, max)}
+					/>
+				</div>
+			);
+		}
+
+		case 'enum': {
+			const values = value?.type === 'enum' ? value.values : [];
+			return (
+				<EnumFilter
+					values={values}
+					options={options}
+					label={label}
+					onChange={(next) => onChange(next.length > 0 ? { type: 'enum', values: next } : undefined)}
+				/>
+			);
+		}
+
+		case 'date': {
+			const range = value?.type === 'date' ? value : { type: 'date' as const };
+			const update = (from: string | undefined, to: string | undefined) => {
+				onChange(!from && !to ? undefined : { type: 'date', from, to });
+			};
+			return (
+				<div className="flex items-center gap-1">
+					<TextInput
+						size="sm"
+						type="date"
+						aria-label={`${label} from`}
+						value={range.from ?? ''}
+						onChange={(e) => update(e.target.value || undefined, range.to)}
+					/>
+					<TextInput
+						size="sm"
+						type="date"
+						aria-label={`${label} to`}
+						value={range.to ?? ''}
+						onChange={(e) => update(range.from, e.target.value || undefined)}
+					/>
+				</div>
+			);
+		}
+	}
+}
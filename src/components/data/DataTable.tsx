@@ -1,17 +1,277 @@
 // ─────────────────────────────────────────────────────────────
 // Component: DataTable
-// Purpose: Generic data table with sorting, responsive design.
+// Purpose: Generic data table with sorting, filtering, editing and responsive layouts.
 // Layer: Data Display
 // Used by: Financial summaries, tax breakdowns, scenario comparisons.
 // ─────────────────────────────────────────────────────────────
 
-import type { ReactNode } from 'react';
-import { useCallback, useState } from 'react';
-import { ChevronUp, ChevronDown, ChevronsUpDown } from 'lucide-react';
+import type { CSSProperties, DragEvent, FocusEvent, ForwardedRef, KeyboardEvent, MouseEvent, PointerEvent, ReactElement, ReactNode, RefAttributes } from 'react';
+import { forwardRef, useCallback, useEffect, useId, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, ChevronsUpDown, Download, Loader2, Search } from 'lucide-react';
+import { useControllableState } from '../../hooks/useControllableState';
+import { BREAKPOINTS, useResponsiveBreakpoints, type Breakpoint } from '../../hooks/useResponsiveBreakpoints';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
+import { Button } from '../ui/Button';
+import { Checkbox } from '../ui/Checkbox';
+import { Select, type SelectOption } from '../ui/Select';
+import { TextInput } from '../ui/TextInput';
+import { Toggle } from '../ui/Toggle';
+import { CellEditor } from './CellEditor';
+import { ColumnChooser } from './ColumnChooser';
+import { ColumnFilter } from './ColumnFilter';
+import { RowToggleButton } from './RowToggleButton';
+import { TableCardList } from './TableCardList';
+import { TablePagination } from './TablePagination';
+import { ViewsMenu } from './ViewsMenu';
+import { getCellFormat, getFormatDomain, type FormatDomain } from './conditionalFormat';
+import { downloadFile, parseTsv, serializeCellRange, serializeRows } from './tableExport';
+import { createViewId, isSameViewState, isSavedView, localStorageViewAdapter, normalizeViewState, type ViewStorageAdapter } from './tableViews';
+import {
+	buildTree,
+	clampPage,
+	computeAggregate,
+	filterRows,
+	flattenTree,
+	formatAggregate,
+	getAllTreeRows,
+	getColumnLabel,
+	getEnumOptions,
+	getKeyRange,
+	getLeafRows,
+	getNextSort,
+	getStickyOffsets,
+	getColumnValue,
+	getPageCount,
+	groupRows,
+	isFilterActive,
+	moveColumn,
+	orderColumns,
+	parseCellText,
+	sortRows,
+	sortTree,
+	SKELETON_WIDTHS,
+	TREE_INDENT,
+	type TreeRow,
+} from './tableUtils';
 
 // ─── Types ───
 export type SortDirection = 'asc' | 'desc' | null;
 
+export interface SortDescriptor {
+	/** Column being sorted */
+	columnId: string;
+	/** Sort direction */
+	direction: 'asc' | 'desc';
+}
+
+/** Ordered sort criteria - the first entry has the highest priority */
+export type SortState = SortDescriptor[];
+
+/** Value returned by getRowKey */
+export type RowKey = string | number;
+
+export type SelectionMode = 'none' | 'single' | 'multi';
+
+export type ColumnFilterType = 'text' | 'number' | 'enum' | 'date';
+
+export interface ColumnFilterDef<T> {
+	/** Filter kind - selects the header control and matching rule */
+	type: ColumnFilterType;
+	/** Plain value used for matching - defaults to the accessor result when it is a string or number */
+	getValue?: (row: T) => string | number | Date | null | undefined;
+	/** Options for enum filters - derived from the data when omitted, so required in manual mode where only one page is loaded */
+	options?: SelectOption[];
+	/** Placeholder for text filters */
+	placeholder?: string;
+}
+
+export type ColumnFilterValue =
+	| { type: 'text'; value: string }
+	| { type: 'number'; min?: number; max?: number }
+	| { type: 'enum'; values: string[] }
+	| { type: 'date'; from?: string; to?: string };
+
+/** Active column filters keyed by column id */
+export type FilterState = Record<string, ColumnFilterValue>;
+
+export type AggregateType = 'sum' | 'average' | 'min' | 'max' | 'count';
+
+/** Custom footer reducer - receives the column's numeric values and the rows they came from */
+export type AggregateReducer<T> = (values: number[], rows: T[]) => number | null;
+
+/** Plain value produced by cell editors */
+export type CellValue = string | number | boolean | undefined;
+
+export type CellEditorType = 'text' | 'number' | 'select' | 'toggle';
+
+export interface ColumnEditorDef<T> {
+	/** Editor kind - toggles render inline and commit on change */
+	type: CellEditorType;
+	/** Current plain value of the cell */
+	getValue: (row: T) => CellValue;
+	/** Restrict editing to some rows */
+	isEditable?: (row: T) => boolean;
+	/** Validation - return an error message to block the commit */
+	validate?: (value: CellValue, row: T) => string | undefined;
+	/** Options for select editors */
+	options?: SelectOption[];
+	/** Minimum for number editors */
+	min?: number;
+	/** Maximum for number editors */
+	max?: number;
+	/** Step for number editors */
+	step?: number;
+	/** BCP 47 locale pasted numbers are read in - defaults to the browser locale, so match the column preset's locale */
+	locale?: string;
+	/** Placeholder for text, number and select editors */
+	placeholder?: string;
+}
+
+// ─── Paste Events ───
+export interface PasteRowChange<T> {
+	/** Key of the pasted-over row */
+	rowKey: RowKey;
+	/** Row as it was before the paste */
+	row: T;
+	/** Parsed values by column id - unchanged cells are left out */
+	values: Record<string, CellValue>;
+}
+
+export interface PasteCellError {
+	rowKey: RowKey;
+	columnId: string;
+	/** Text that was pasted into the cell */
+	text: string;
+	/** Why the cell was rejected */
+	error: string;
+}
+
+// ─── Editing Cell State ───
+interface EditingCell {
+	rowKey: RowKey;
+	columnId: string;
+	value: CellValue;
+	error?: string;
+}
+
+// ─── Display Items (rows and group headers in render order) ───
+export type DisplayItem<T> =
+	| { type: 'row'; key: RowKey; row: T; index: number }
+	| { type: 'group'; key: string; rows: T[]; expanded: boolean }
+	| { type: 'detail'; key: RowKey; row: T };
+
+/** Everything a server needs to fetch the current page in manual mode */
+export interface DataTableQuery {
+	sort: SortState;
+	filters: FilterState;
+	globalFilter: string;
+	/** Current page (1-based) */
+	page: number;
+	pageSize: number;
+}
+
+/** Serializable column layout - persist it to restore a user's columns */
+export interface ColumnState {
+	/** Column ids in display order - columns missing from the list follow in definition order */
+	order?: string[];
+	/** Ids of hidden columns */
+	hidden?: string[];
+	/** Resized column widths in pixels */
+	widths?: Record<string, number>;
+}
+
+export type ExportFormat = 'csv' | 'tsv' | 'json';
+
+/** Rows to export - the filtered and sorted view (all pages, collapsed tree rows included) or the raw data */
+export type ExportScope = 'view' | 'all';
+
+export interface ExportOptions {
+	/** File format (default: csv) */
+	format?: ExportFormat;
+	/** Rows to export (default: view) */
+	scope?: ExportScope;
+	/** File name - the extension is added when missing */
+	filename?: string;
+	/** Prefix CSV/TSV with a UTF-8 byte order mark so Excel detects the encoding (default: true) */
+	bom?: boolean;
+	/** Prefix CSV/TSV cells starting with =, +, -, @, tab or carriage return with ' so spreadsheets don't run them as formulas (default: true) */
+	escapeFormulas?: boolean;
+}
+
+// ─── Saved Views ───
+/** Serializable snapshot of the user's table arrangement */
+export interface DataTableViewState {
+	sort: SortState;
+	filters: FilterState;
+	globalFilter: string;
+	columnState: ColumnState;
+	/** Grouping column id, null for none - left out when grouping uses a key function */
+	groupBy?: string | null;
+	pageSize: number;
+}
+
+export interface DataTableView {
+	id: string;
+	name: string;
+	state: DataTableViewState;
+}
+
+/** Imperative API exposed through the DataTable ref */
+export interface DataTableHandle {
+	/** Serialize rows to a string without downloading */
+	getExportContent: (options?: ExportOptions) => string;
+	/** Serialize rows and download them as a file */
+	exportData: (options?: ExportOptions) => void;
+	/** Capture sort, filters, search, column layout, grouping and page size */
+	getViewState: () => DataTableViewState;
+	/** Restore a captured state and return to the first page */
+	applyViewState: (state: DataTableViewState) => void;
+}
+
+// ─── Conditional Formatting ───
+/** Theme color a rule paints with - follows the active data-theme */
+export type FormatTone = 'success' | 'warning' | 'error' | 'accent';
+
+export interface ThresholdRule {
+	type: 'threshold';
+	/** Comparison against the cell value - between is inclusive of value and max */
+	operator: '<' | '<=' | '>' | '>=' | '=' | '!=' | 'between';
+	value: number;
+	/** Upper bound for between */
+	max?: number;
+	tone: FormatTone;
+	/** Tint the cell background as well as the text */
+	fill?: boolean;
+}
+
+export interface ColorScaleRule {
+	type: 'colorScale';
+	/** Tone at the column minimum (default: error) */
+	low?: FormatTone;
+	/** Optional tone at the midpoint (default: warning) - pass null for a two-color scale */
+	mid?: FormatTone | null;
+	/** Tone at the column maximum (default: success) */
+	high?: FormatTone;
+	/** Fixed scale minimum - defaults to the smallest value in the filtered rows */
+	min?: number;
+	/** Fixed scale maximum - defaults to the largest value in the filtered rows */
+	max?: number;
+}
+
+export interface DataBarRule {
+	type: 'dataBar';
+	/** Bar color for positive values (default: accent) */
+	tone?: FormatTone;
+	/** Bar color for negative values (default: error) */
+	negativeTone?: FormatTone;
+	/** Fixed bar minimum - defaults to the smallest value (or 0) in the filtered rows */
+	min?: number;
+	/** Fixed bar maximum - defaults to the largest value (or 0) in the filtered rows */
+	max?: number;
+}
+
+export type ConditionalFormatRule = ThresholdRule | ColorScaleRule | DataBarRule;
+
 export interface ColumnDef<T> {
 	/** Unique column identifier */
 	id: string;
@@ -31,6 +291,36 @@ export interface ColumnDef<T> {
 	headerClassName?: string;
 	/** Additional cell classes */
 	cellClassName?: string;
+	/** Filter control shown under the header */
+	filter?: ColumnFilterDef<T>;
+	/** Include this column in the global search (defaults to true) */
+	searchable?: boolean;
+	/** Footer aggregate computed over the filtered rows */
+	aggregate?: AggregateType | AggregateReducer<T>;
+	/** Numeric value used by the aggregate - defaults to the filter value or a numeric accessor result */
+	aggregateValue?: (row: T) => number | null | undefined;
+	/** Formats the footer aggregate - defaults to locale number formatting */
+	formatAggregate?: (value: number) => ReactNode;
+	/** Inline editor - cells become editable when the table has onCellEdit */
+	editor?: ColumnEditorDef<T>;
+	/** Reads pasted text for this column - defaults to parsing by editor type; return undefined to reject the text */
+	parseValue?: (text: string, row: T) => CellValue;
+	/** Plain value for exports and copied cells - defaults to the filter value or a primitive accessor result */
+	exportValue?: (row: T) => string | number | boolean | Date | null | undefined;
+	/** Include the column in exports (default: true) */
+	exportable?: boolean;
+	/** Allow resizing when resizableColumns is on (default: true) */
+	resizable?: boolean;
+	/** Smallest width in pixels when resizing (default: 60) */
+	minWidth?: number;
+	/** Allow hiding from the column chooser (default: true) */
+	hideable?: boolean;
+	/** Keep the column fixed at the left or right edge while scrolling horizontally */
+	pinned?: 'left' | 'right';
+	/** Offer this column in the toolbar's Group by menu */
+	groupable?: boolean;
+	/** Formatting rules evaluated against the numeric cell value (aggregateValue, filter value or numeric accessor) */
+	conditionalFormat?: ConditionalFormatRule[];
 }
 
 export interface DataTableProps<T> {
@@ -39,7 +329,7 @@ export interface DataTableProps<T> {
 	/** Data rows */
 	data: T[];
 	/** Unique key accessor for each row */
-	getRowKey: (row: T, index: number) => string | number;
+	getRowKey: (row: T, index: number) => RowKey;
 	/** Enable zebra striping */
 	striped?: boolean;
 	/** Enable hover highlighting */
@@ -52,6 +342,148 @@ export interface DataTableProps<T> {
 	className?: string;
 	/** Max height with internal scroll */
 	maxHeight?: string;
+	/** Controlled column filters */
+	filters?: FilterState;
+	/** Default column filters for uncontrolled usage */
+	defaultFilters?: FilterState;
+	/** Callback when column filters change */
+	onFiltersChange?: (filters: FilterState) => void;
+	/** Show a quick-search box above the table */
+	globalSearch?: boolean;
+	/** Controlled global search text */
+	globalFilter?: string;
+	/** Default global search text for uncontrolled usage */
+	defaultGlobalFilter?: string;
+	/** Callback when the global search text changes */
+	onGlobalFilterChange?: (globalFilter: string) => void;
+	/** Placeholder for the global search box */
+	searchPlaceholder?: string;
+	/** Controlled sort state */
+	sort?: SortState;
+	/** Default sort state for uncontrolled usage */
+	defaultSort?: SortState;
+	/** Callback when the sort state changes */
+	onSortChange?: (sort: SortState) => void;
+	/** Allow shift-click to sort by several columns */
+	multiSort?: boolean;
+	/** Skip in-memory sorting - rows are expected to arrive pre-sorted (e.g. from a server) */
+	manualSorting?: boolean;
+	/** Child rows for tree data - parents get expand toggles in the first column; getRowKey must be unique across levels */
+	getSubRows?: (row: T) => T[] | undefined;
+	/** Controlled expanded tree rows */
+	treeExpandedKeys?: RowKey[];
+	/** Initially expanded tree rows for uncontrolled usage */
+	defaultTreeExpandedKeys?: RowKey[];
+	/** Callback when tree rows are expanded or collapsed */
+	onTreeExpandedKeysChange?: (keys: RowKey[]) => void;
+	/** Show aggregates of leaf rows in parent rows for columns with an aggregate */
+	aggregateParentRows?: boolean;
+	/** Server-side mode - data is the current page, already filtered, sorted and paged; footer totals cover that page only */
+	manual?: boolean;
+	/** Total rows on the server in manual mode (defaults to data.length) */
+	totalCount?: number;
+	/** Callback with the full query whenever sort, filters, search, page or page size change */
+	onQueryChange?: (query: DataTableQuery) => void;
+	/** Show a loading overlay, or skeleton rows when there is no data yet */
+	loading?: boolean;
+	/** Number of skeleton rows shown while loading without data */
+	skeletonRowCount?: number;
+	/** Row selection mode - injects a checkbox column when enabled */
+	selectionMode?: SelectionMode;
+	/** Controlled selected row keys */
+	selectedKeys?: RowKey[];
+	/** Default selected row keys for uncontrolled usage */
+	defaultSelectedKeys?: RowKey[];
+	/** Callback when the selection changes */
+	onSelectionChange?: (keys: RowKey[]) => void;
+	/** Bulk-action toolbar content, shown above the table while rows are selected */
+	bulkActions?: (selectedRows: T[], clearSelection: () => void) => ReactNode;
+	/** Controlled grouping by a column id or a key function, null for none - group headers show per-group aggregates */
+	groupBy?: string | ((row: T) => string) | null;
+	/** Initial grouping for uncontrolled usage */
+	defaultGroupBy?: string | ((row: T) => string) | null;
+	/** Callback when grouping changes from the Group by menu or a saved view */
+	onGroupByChange?: (groupBy: string | ((row: T) => string) | null) => void;
+	/** Custom group header label */
+	formatGroupLabel?: (groupKey: string, rows: T[]) => ReactNode;
+	/** Controlled collapsed group keys */
+	collapsedGroups?: string[];
+	/** Default collapsed group keys for uncontrolled usage */
+	defaultCollapsedGroups?: string[];
+	/** Callback when groups are expanded or collapsed */
+	onCollapsedGroupsChange?: (groupKeys: string[]) => void;
+	/** Detail content revealed under a row - adds an expander column */
+	renderExpandedRow?: (row: T) => ReactNode;
+	/** Controlled expanded row keys */
+	expandedKeys?: RowKey[];
+	/** Default expanded row keys for uncontrolled usage */
+	defaultExpandedKeys?: RowKey[];
+	/** Callback when rows are expanded or collapsed */
+	onExpandedKeysChange?: (keys: RowKey[]) => void;
+	/** Allow only one expanded row at a time */
+	singleExpand?: boolean;
+	/** Toggle the detail row by clicking anywhere on the row */
+	expandOnRowClick?: boolean;
+	/** Estimated detail row height in pixels when virtualized */
+	expandedRowHeight?: number;
+	/** Callback when an edited cell is committed - the table stays controlled, so apply it to data */
+	onCellEdit?: (rowKey: RowKey, columnId: string, value: CellValue) => void;
+	/** Callback with every row changed by pasting a TSV block at the focused cell - apply it to data in one update */
+	onPasteRows?: (changes: PasteRowChange<T>[], errors: PasteCellError[]) => void;
+	/** Label shown in the footer's first cell when that column has no aggregate */
+	footerLabel?: ReactNode;
+	/** Split rows into pages with navigation controls - group headers count towards the page size */
+	pagination?: boolean;
+	/** Controlled current page (1-based) */
+	page?: number;
+	/** Default page for uncontrolled usage */
+	defaultPage?: number;
+	/** Callback when the page changes */
+	onPageChange?: (page: number) => void;
+	/** Controlled rows per page */
+	pageSize?: number;
+	/** Default rows per page for uncontrolled usage */
+	defaultPageSize?: number;
+	/** Callback when the page size changes */
+	onPageSizeChange?: (pageSize: number) => void;
+	/** Selectable page sizes - pass an empty array to hide the selector */
+	pageSizeOptions?: number[];
+	/** Only mount rows visible in the scroll container (uses maxHeight, defaults to 400px) */
+	virtualized?: boolean;
+	/** Row height in pixels for virtualization - defaults to the compact/regular row height */
+	rowHeight?: number | ((row: T, index: number) => number);
+	/** Extra rows rendered above and below the viewport when virtualized */
+	overscan?: number;
+	/** Controlled column layout (order, visibility, widths) */
+	columnState?: ColumnState;
+	/** Initial column layout for uncontrolled usage */
+	defaultColumnState?: ColumnState;
+	/** Callback when columns are resized, reordered, shown or hidden */
+	onColumnStateChange?: (state: ColumnState) => void;
+	/** Drag header edges, or press Alt+Left/Right on a focused header, to resize columns */
+	resizableColumns?: boolean;
+	/** Drag headers to reorder columns */
+	reorderableColumns?: boolean;
+	/** Show a toolbar menu to show, hide and reorder columns */
+	columnChooser?: boolean;
+	/** Formats offered by the toolbar export button - hidden when empty */
+	exportFormats?: ExportFormat[];
+	/** File name used by the toolbar export button */
+	exportFilename?: string;
+	/** Rows exported by the toolbar export button */
+	exportScope?: ExportScope;
+	/** Storage key for saved views - shows the Views menu when set */
+	viewsKey?: string;
+	/** Where saved views are kept (default: localStorage) */
+	viewStorage?: ViewStorageAdapter;
+	/** Called when the storage adapter fails - a failed save rolls the views back */
+	onViewStorageError?: (error: unknown, action: 'load' | 'save') => void;
+	/** Drag or shift+arrow to select a block of cells and copy it as TSV with Ctrl/Cmd+C */
+	cellSelection?: boolean;
+	/** Below this breakpoint each row renders as a stacked card, with sorting in a menu */
+	cardBreakpoint?: Breakpoint;
+	/** Column shown as each card's title - defaults to the first visible column */
+	cardTitleColumn?: string;
 }
 
 // ─── Alignment Styles ───
@@ -61,8 +493,50 @@ const alignStyles: Record<'left' | 'center' | 'right', string> = {
 	right: 'text-right',
 };
 
+// ─── Default Row Heights (cell padding + text-sm line + border) ───
+const ROW_HEIGHTS = {
+	regular: 45,
+	compact: 37,
+};
+
+const DEFAULT_VIRTUAL_MAX_HEIGHT = '400px';
+
+// ─── Grid Navigation ───
+const HEADER_ROW_ID = 'header';
+const SELECTION_COLUMN_ID = '__select';
+const EXPANDER_COLUMN_ID = '__expand';
+// Cells whose single widget is activated by Enter/Space
+const CELL_WIDGET_SELECTOR = 'button, input';
+// Cell content that handles its own clicks
+const INTERACTIVE_SELECTOR = 'button, a, input, label, select, textarea';
+
+const gridCellFocusStyles = 'focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-border-focus';
+
+interface GridCell {
+	rowId: string;
+	columnId: string;
+}
+
+interface CellRange {
+	anchor: GridCell;
+	focus: GridCell;
+}
+
+// ─── Cell Range Selection ───
+const rangeOverlayStyles = 'after:pointer-events-none after:absolute after:inset-0 after:bg-accent-primary/10 after:border-accent-primary';
+
+// ─── Pinned Column Edge Shadows ───
+const pinnedShadows = {
+	left: 'shadow-[6px_0_8px_-6px_rgb(0_0_0/0.35)]',
+	right: 'shadow-[-6px_0_8px_-6px_rgb(0_0_0/0.35)]',
+};
+
+// ─── Column Resizing ───
+const MIN_COLUMN_WIDTH = 60;
+const RESIZE_KEYBOARD_STEP = 16;
+
 // ─── Component ───
-export function DataTable<T>({
+function DataTableComponent<T>({
 	columns,
 	data,
 	getRowKey,
@@ -72,73 +546,1456 @@ export function DataTable<T>({
 	emptyMessage = 'No data available',
 	className = '',
 	maxHeight,
-}: DataTableProps<T>) {
-	const [sortColumn, setSortColumn] = useState<string | null>(null);
-	const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+	filters: controlledFilters,
+	defaultFilters = {},
+	onFiltersChange,
+	globalSearch = false,
+	globalFilter: controlledGlobalFilter,
+	defaultGlobalFilter = '',
+	onGlobalFilterChange,
+	searchPlaceholder = 'Search…',
+	sort: controlledSort,
+	defaultSort = [],
+	onSortChange,
+	multiSort = true,
+	manualSorting = false,
+	manual = false,
+	getSubRows,
+	treeExpandedKeys: controlledTreeExpandedKeys,
+	defaultTreeExpandedKeys = [],
+	onTreeExpandedKeysChange,
+	aggregateParentRows = false,
+	totalCount,
+	onQueryChange,
+	loading = false,
+	skeletonRowCount = 5,
+	selectionMode = 'none',
+	selectedKeys: controlledSelectedKeys,
+	defaultSelectedKeys = [],
+	onSelectionChange,
+	bulkActions,
+	groupBy: controlledGroupBy,
+	defaultGroupBy = null,
+	onGroupByChange,
+	formatGroupLabel,
+	collapsedGroups: controlledCollapsedGroups,
+	defaultCollapsedGroups = [],
+	onCollapsedGroupsChange,
+	renderExpandedRow,
+	expandedKeys: controlledExpandedKeys,
+	defaultExpandedKeys = [],
+	onExpandedKeysChange,
+	singleExpand = false,
+	expandOnRowClick = false,
+	expandedRowHeight = 160,
+	onCellEdit,
+	onPasteRows,
+	footerLabel = 'Total',
+	pagination = false,
+	page: controlledPage,
+	defaultPage = 1,
+	onPageChange,
+	pageSize: controlledPageSize,
+	defaultPageSize = 25,
+	onPageSizeChange,
+	pageSizeOptions,
+	virtualized = false,
+	rowHeight,
+	overscan,
+	columnState: controlledColumnState,
+	defaultColumnState = {},
+	onColumnStateChange,
+	resizableColumns = false,
+	reorderableColumns = false,
+	columnChooser = false,
+	cellSelection = false,
+	exportFormats = [],
+	exportFilename = 'export',
+	exportScope = 'view',
+	viewsKey,
+	viewStorage = localStorageViewAdapter,
+	onViewStorageError,
+	cardBreakpoint,
+	cardTitleColumn,
+}: DataTableProps<T>, ref: ForwardedRef<DataTableHandle>) {
+	const scrollRef = useRef<HTMLDivElement>(null);
+	const tableId = useId();
+
+	// ─── Filter State ───
+	const { value: filters, setValue: setFilters } = useControllableState({
+		value: controlledFilters,
+		defaultValue: defaultFilters,
+		onChange: onFiltersChange,
+	});
+	const { value: globalFilter, setValue: setGlobalFilter } = useControllableState({
+		value: controlledGlobalFilter,
+		defaultValue: defaultGlobalFilter,
+		onChange: onGlobalFilterChange,
+	});
+
+	// ─── Sort State ───
+	const { value: sort, setValue: setSort } = useControllableState({
+		value: controlledSort,
+		defaultValue: defaultSort,
+		onChange: onSortChange,
+	});
+
+	// ─── Selection State ───
+	const { value: selectedKeys, setValue: setSelectedKeys } = useControllableState({
+		value: controlledSelectedKeys,
+		defaultValue: defaultSelectedKeys,
+		onChange: onSelectionChange,
+	});
+	const selectionAnchorRef = useRef<RowKey | null>(null);
+	const shiftKeyRef = useRef(false);
+
+	// ─── Group State ───
+	const { value: collapsedGroups, setValue: setCollapsedGroups } = useControllableState({
+		value: controlledCollapsedGroups,
+		defaultValue: defaultCollapsedGroups,
+		onChange: onCollapsedGroupsChange,
+	});
+
+	// ─── Expansion State ───
+	const { value: expandedKeys, setValue: setExpandedKeys } = useControllableState({
+		value: controlledExpandedKeys,
+		defaultValue: defaultExpandedKeys,
+		onChange: onExpandedKeysChange,
+	});
+
+	// ─── Grouping State ───
+	const { value: groupBy, setValue: setGroupBy } = useControllableState({
+		value: controlledGroupBy,
+		defaultValue: defaultGroupBy,
+		onChange: onGroupByChange,
+	});
+
+	// ─── Tree Expansion State ───
+	const { value: treeExpandedKeys, setValue: setTreeExpandedKeys } = useControllableState({
+		value: controlledTreeExpandedKeys,
+		defaultValue: defaultTreeExpandedKeys,
+		onChange: onTreeExpandedKeysChange,
+	});
+
+	// ─── Editing State ───
+	const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+	// Mirrors the open editor synchronously so a blur right after Enter/Escape can't commit twice
+	const editingCellRef = useRef<EditingCell | null>(null);
+	// Inline toggles have no editor, so a rejected click keeps its error here
+	const [toggleError, setToggleError] = useState<EditingCell | null>(null);
+	const [pasteErrors, setPasteErrors] = useState<PasteCellError[]>([]);
+
+	// ─── Pagination State ───
+	const { value: page, setValue: setPage } = useControllableState({
+		value: controlledPage,
+		defaultValue: defaultPage,
+		onChange: onPageChange,
+	});
+	const { value: pageSize, setValue: setPageSize } = useControllableState({
+		value: controlledPageSize,
+		defaultValue: defaultPageSize,
+		onChange: onPageSizeChange,
+	});
+
+	// ─── Column Layout State ───
+	const { value: columnState, setValue: setColumnState } = useControllableState({
+		value: controlledColumnState,
+		defaultValue: defaultColumnState,
+		onChange: onColumnStateChange,
+	});
+	// Live width while dragging - only the final width is written to columnState
+	const [resizeDraft, setResizeDraft] = useState<{ columnId: string; width: number } | null>(null);
+	const [dragColumnId, setDragColumnId] = useState<string | null>(null);
+	const [dropTarget, setDropTarget] = useState<{ columnId: string; side: 'before' | 'after' } | null>(null);
+	const isResizingRef = useRef(false);
+
+	const orderedColumns = useMemo(
+		() => orderColumns(columns, columnState.order),
+		[columns, columnState.order]
+	);
+	const visibleColumns = useMemo(() => {
+		const hidden = new Set(columnState.hidden);
+		const shown = orderedColumns.filter(column => !hidden.has(column.id));
+
+		// Pinned columns sit at the table edges wherever they fall in the saved order
+		return [
+			...shown.filter(column => column.pinned === 'left'),
+			...shown.filter(column => !column.pinned),
+			...shown.filter(column => column.pinned === 'right'),
+		];
+	}, [orderedColumns, columnState.hidden]);
+
+	// ─── Query Events ───
+	// A single callback lets server-side consumers refetch without wiring every change event
+	const emitQuery = useCallback((patch: Partial<DataTableQuery>) => {
+		onQueryChange?.({ sort, filters, globalFilter, page, pageSize, ...patch });
+	}, [onQueryChange, sort, filters, globalFilter, page, pageSize]);
 
 	// ─── Sorting Logic ───
-	const handleSort = useCallback((columnId: string) => {
-		if (sortColumn === columnId) {
-			// Cycle: asc -> desc -> null
-			setSortDirection(prev => prev === 'asc' ? 'desc' : prev === 'desc' ? null : 'asc');
-			if (sortDirection === 'desc') {
-				setSortColumn(null);
-			}
+	const applySort = useCallback((nextSort: SortState) => {
+		setSort(nextSort);
+
+		// A new ordering invalidates the current page position
+		if (pagination && page !== 1) {
+			setPage(1);
+		}
+		emitQuery({ sort: nextSort, page: pagination ? 1 : page });
+	}, [setSort, pagination, page, setPage, emitQuery]);
+
+	const handleSort = useCallback((columnId: string, additive: boolean) => {
+		applySort(getNextSort(sort, columnId, multiSort && additive));
+	}, [sort, multiSort, applySort]);
+
+	// ─── Filtering Logic ───
+	const handleFilterChange = useCallback((columnId: string, value: ColumnFilterValue | undefined) => {
+		const next = { ...filters };
+		if (value) {
+			next[columnId] = value;
 		} else {
-			setSortColumn(columnId);
-			setSortDirection('asc');
+			delete next[columnId];
+		}
+		setFilters(next);
+
+		if (pagination && page !== 1) {
+			setPage(1);
+		}
+		emitQuery({ filters: next, page: pagination ? 1 : page });
+	}, [filters, setFilters, pagination, page, setPage, emitQuery]);
+
+	const handleGlobalFilterChange = useCallback((value: string) => {
+		setGlobalFilter(value);
+
+		if (pagination && page !== 1) {
+			setPage(1);
 		}
-	}, [sortColumn, sortDirection]);
+		emitQuery({ globalFilter: value, page: pagination ? 1 : page });
+	}, [setGlobalFilter, pagination, page, setPage, emitQuery]);
+
+	const clearFilters = useCallback(() => {
+		setFilters({});
+		setGlobalFilter('');
+
+		if (pagination && page !== 1) {
+			setPage(1);
+		}
+		emitQuery({ filters: {}, globalFilter: '', page: pagination ? 1 : page });
+	}, [setFilters, setGlobalFilter, pagination, page, setPage, emitQuery]);
+
+	const hasColumnFilters = columns.some(column => column.filter);
+	const hasActiveFilters = Object.values(filters).some(isFilterActive) || globalFilter.trim() !== '';
+
+	// ─── Tree Data ───
+	// Parents stay visible when any descendant matches the filters
+	const filteredTree = useMemo(
+		() => getSubRows
+			? buildTree(data, getSubRows, columns, manual ? {} : filters, manual ? '' : globalFilter)
+			: null,
+		[getSubRows, data, columns, filters, globalFilter, manual]
+	);
+
+	// Every row at every level - the unfiltered baseline for counts, enum options and full exports
+	const sourceRows = useMemo(
+		() => getSubRows ? getAllTreeRows(buildTree(data, getSubRows, columns, {}, '')) : data,
+		[getSubRows, data, columns]
+	);
+
+	const treeExpandedKeySet = useMemo(() => new Set(treeExpandedKeys), [treeExpandedKeys]);
+	// Filtering expands every parent so matches are never hidden under a collapsed row
+	const isTreeFiltered = !manual && hasActiveFilters;
+
+	const sortedTree = useMemo(
+		() => filteredTree && !manual && !manualSorting ? sortTree(filteredTree, columns, sort) : filteredTree,
+		[filteredTree, manual, manualSorting, columns, sort]
+	);
+
+	const treeRows = useMemo(
+		() => sortedTree
+			? flattenTree(sortedTree, getRowKey, key => isTreeFiltered || treeExpandedKeySet.has(key))
+			: null,
+		[sortedTree, getRowKey, isTreeFiltered, treeExpandedKeySet]
+	);
+
+	const treeRowByKey = useMemo(
+		() => new Map<RowKey, TreeRow<T>>(treeRows?.map(treeRow => [treeRow.key, treeRow]) ?? []),
+		[treeRows]
+	);
+
+	const toggleTreeRow = useCallback((key: RowKey, nextExpanded = !treeExpandedKeySet.has(key)) => {
+		if (nextExpanded === treeExpandedKeySet.has(key)) return;
+
+		setTreeExpandedKeys(nextExpanded
+			? [...treeExpandedKeys, key]
+			: treeExpandedKeys.filter(expanded => expanded !== key));
+	}, [treeExpandedKeys, treeExpandedKeySet, setTreeExpandedKeys]);
+
+	// ─── Filtered Data ───
+	// Manual mode receives rows the server has already filtered, sorted and paged
+	const filteredData = useMemo(
+		() => filteredTree
+			? getAllTreeRows(filteredTree)
+			: manual ? data : filterRows(data, columns, filters, globalFilter),
+		[filteredTree, manual, data, columns, filters, globalFilter]
+	);
+
+	// Enum options are derived from the unfiltered data so choices don't vanish while filtering
+	const enumOptions = useMemo(() => {
+		const options: Record<string, SelectOption[]> = {};
+		columns.forEach(column => {
+			if (column.filter?.type === 'enum') {
+				options[column.id] = getEnumOptions(column, sourceRows);
+			}
+		});
+		return options;
+	}, [columns, sourceRows]);
 
 	// ─── Sorted Data ───
-	const sortedData = (() => {
-		if (!sortColumn || !sortDirection) return data;
+	// Tree data is sorted level by level and flattened in display order
+	const sortedData = useMemo(
+		() => treeRows
+			? treeRows.map(treeRow => treeRow.row)
+			: manual || manualSorting ? filteredData : sortRows(filteredData, columns, sort),
+		[treeRows, filteredData, columns, sort, manual, manualSorting]
+	);
+
+	// ─── Export ───
+	const getExportContent = useCallback(({
+		format = 'csv',
+		scope = 'view',
+		bom = true,
+		escapeFormulas = true,
+	}: ExportOptions = {}) => {
+		// Tree exports include the children of collapsed rows
+		const rows = scope === 'all'
+			? sourceRows
+			: sortedTree ? getAllTreeRows(sortedTree) : sortedData;
+		// Exports follow the on-screen column layout
+		const exportColumns = visibleColumns.filter(column => column.exportable !== false);
+		return serializeRows(rows, exportColumns, format, bom, escapeFormulas);
+	}, [sourceRows, sortedTree, sortedData, visibleColumns]);
+
+	const exportData = useCallback((options: ExportOptions = {}) => {
+		const format = options.format ?? 'csv';
+		downloadFile(getExportContent(options), options.filename ?? exportFilename, format);
+	}, [getExportContent, exportFilename]);
 
-		const column = columns.find(c => c.id === sortColumn);
-		if (!column) return data;
+	// ─── Saved Views ───
+	const [views, setViews] = useState<DataTableView[]>([]);
+	const [activeViewId, setActiveViewId] = useState<string | null>(null);
 
-		return [...data].sort((a, b) => {
-			if (column.sortFn) {
-				const result = column.sortFn(a, b);
-				return sortDirection === 'desc' ? -result : result;
+	// Adapters and error handlers are often passed inline, so keep the latest without reloading
+	const viewStorageRef = useRef({ adapter: viewStorage, onError: onViewStorageError });
+	useEffect(() => {
+		viewStorageRef.current = { adapter: viewStorage, onError: onViewStorageError };
+	});
+
+	// Adapters may load asynchronously, e.g. from a user-settings API
+	useEffect(() => {
+		if (!viewsKey) return;
+
+		let cancelled = false;
+		const { adapter, onError } = viewStorageRef.current;
+		// Wrapped so a synchronous throw is handled like a rejection
+		new Promise<unknown>(resolve => resolve(adapter.load(viewsKey)))
+			.then(loaded => {
+				// Custom adapters can return anything, so drop entries that aren't views
+				if (!cancelled) setViews(Array.isArray(loaded) ? loaded.filter(isSavedView) : []);
+			})
+			.catch((error: unknown) => {
+				if (cancelled) return;
+				setViews([]);
+				onError?.(error, 'load');
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [viewsKey]);
+
+	const getViewState = useCallback((): DataTableViewState => ({
+		sort,
+		filters,
+		globalFilter,
+		columnState,
+		// Key functions can't be serialized, so function grouping stays out of views
+		...(typeof groupBy === 'function' ? {} : { groupBy }),
+		pageSize,
+	}), [sort, filters, globalFilter, columnState, groupBy, pageSize]);
+
+	const applyViewState = useCallback((viewState: DataTableViewState) => {
+		const state = normalizeViewState(viewState, pageSize);
+		setSort(state.sort);
+		setFilters(state.filters);
+		setGlobalFilter(state.globalFilter);
+		setColumnState(state.columnState);
+		if (state.groupBy !== undefined) {
+			setGroupBy(state.groupBy);
+		}
+		setPageSize(state.pageSize);
+		setPage(1);
+		emitQuery({
+			sort: state.sort,
+			filters: state.filters,
+			globalFilter: state.globalFilter,
+			page: 1,
+			pageSize: state.pageSize,
+		});
+	}, [pageSize, setSort, setFilters, setGlobalFilter, setColumnState, setGroupBy, setPageSize, setPage, emitQuery]);
+
+	const persistViews = (nextViews: DataTableView[]) => {
+		const previousViews = views;
+		setViews(nextViews);
+		if (!viewsKey) return;
+
+		const { adapter, onError } = viewStorageRef.current;
+		new Promise<void>(resolve => resolve(adapter.save(viewsKey, nextViews)))
+			.catch((error: unknown) => {
+				// Roll back unless the views changed again while the save was pending
+				setViews(current => current === nextViews ? previousViews : current);
+				onError?.(error, 'save');
+			});
+	};
+
+	const selectView = (viewId: string) => {
+		const view = views.find(candidate => candidate.id === viewId);
+		if (!view) return;
+		applyViewState(view.state);
+		setActiveViewId(viewId);
+	};
+
+	// Saving under an existing name replaces that view
+	const saveView = (name: string) => {
+		const existing = views.find(view => view.name === name);
+		const view = { id: existing?.id ?? createViewId(), name, state: getViewState() };
+		persistViews(existing
+			? views.map(candidate => candidate.id === existing.id ? view : candidate)
+			: [...views, view]);
+		setActiveViewId(view.id);
+	};
+
+	const updateActiveView = () => {
+		persistViews(views.map(view => view.id === activeViewId ? { ...view, state: getViewState() } : view));
+	};
+
+	const deleteView = (viewId: string) => {
+		persistViews(views.filter(view => view.id !== viewId));
+		if (viewId === activeViewId) {
+			setActiveViewId(null);
+		}
+	};
+
+	const activeView = views.find(view => view.id === activeViewId);
+	const isViewModified = activeView !== undefined
+		&& !isSameViewState(normalizeViewState(activeView.state, pageSize), getViewState());
+
+	useImperativeHandle(
+		ref,
+		() => ({ getExportContent, exportData, getViewState, applyViewState }),
+		[getExportContent, exportData, getViewState, applyViewState]
+	);
+
+	// ─── Conditional Format Domains ───
+	// Scales and bars span every filtered row so colors don't shift between pages
+	const formatDomains = useMemo(() => {
+		const domains: Record<string, FormatDomain | null> = {};
+		visibleColumns.forEach(column => {
+			if (column.conditionalFormat) {
+				domains[column.id] = getFormatDomain(column, filteredData);
 			}
+		});
+		return domains;
+	}, [visibleColumns, filteredData]);
+
+	// ─── Footer Aggregates ───
+	const hasAggregates = visibleColumns.some(column => column.aggregate);
+	// Tree totals come from leaf rows so parents are not counted twice
+	const aggregateRows = useMemo(
+		() => filteredTree ? getLeafRows(filteredTree) : filteredData,
+		[filteredTree, filteredData]
+	);
+	const aggregates = useMemo(
+		() => hasAggregates ? visibleColumns.map(column => computeAggregate(column, aggregateRows)) : [],
+		[hasAggregates, visibleColumns, aggregateRows]
+	);
+
+	// ─── Row Keys ───
+	const rowKeys = useMemo(
+		() => treeRows
+			? treeRows.map(treeRow => treeRow.key)
+			: sortedData.map((row, index) => getRowKey(row, index)),
+		[treeRows, sortedData, getRowKey]
+	);
+
+	// ─── Grouping ───
+	const groupColumn = typeof groupBy === 'string' ? columns.find(c => c.id === groupBy) : undefined;
+	const groups = useMemo(() => {
+		const getGroupKey = typeof groupBy === 'function'
+			? groupBy
+			: groupColumn
+				? (row: T) => String(getColumnValue(groupColumn, row) ?? '')
+				: null;
+		// Tree data brings its own hierarchy, so grouping is skipped
+		if (!getGroupKey || getSubRows) return null;
+
+		// Sorting the grouping column orders the groups; other sorts apply within each group
+		const direction = sort.find(descriptor => descriptor.columnId === groupColumn?.id)?.direction ?? 'asc';
+		return groupRows(sortedData, getGroupKey, direction);
+	}, [groupBy, groupColumn, getSubRows, sortedData, sort]);
+
+	// Subtotals per group key, aligned with visibleColumns - computed once per grouping, not per render
+	const groupAggregates = useMemo(
+		() => new Map(hasAggregates && groups
+			? groups.map(group => [group.key, visibleColumns.map(column => computeAggregate(column, group.rows))])
+			: []),
+		[hasAggregates, groups, visibleColumns]
+	);
+
+	const groupableColumns = columns.filter(column => column.groupable);
+
+	const handleGroupByChange = (columnId: string) => {
+		setGroupBy(columnId || null);
+		if (pagination && page !== 1) {
+			setPage(1);
+			emitQuery({ page: 1 });
+		}
+	};
 
-			// Default comparison
-			const aVal = column.accessor(a);
-			const bVal = column.accessor(b);
+	const toggleGroup = useCallback((groupKey: string) => {
+		setCollapsedGroups(collapsedGroups.includes(groupKey)
+			? collapsedGroups.filter(key => key !== groupKey)
+			: [...collapsedGroups, groupKey]);
+	}, [collapsedGroups, setCollapsedGroups]);
+
+	// ─── Display Items ───
+	const items = useMemo((): DisplayItem<T>[] => {
+		if (!groups) {
+			return sortedData.map((row, index) => ({ type: 'row', key: rowKeys[index], row, index }));
+		}
 
-			if (typeof aVal === 'number' && typeof bVal === 'number') {
-				return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
+		const collapsedSet = new Set(collapsedGroups);
+		const result: DisplayItem<T>[] = [];
+		groups.forEach(group => {
+			const expanded = !collapsedSet.has(group.key);
+			result.push({ type: 'group', key: group.key, rows: group.rows, expanded });
+			if (expanded) {
+				group.indexes.forEach(index => {
+					result.push({ type: 'row', key: rowKeys[index], row: sortedData[index], index });
+				});
 			}
+		});
+		return result;
+	}, [groups, collapsedGroups, sortedData, rowKeys]);
+
+	// ─── Paged Items ───
+	const rowTotal = manual ? totalCount ?? data.length : items.length;
+	const pageCount = getPageCount(rowTotal, pageSize);
+	const currentPage = pagination ? clampPage(page, pageCount) : 1;
+	const pageStart = pagination ? (currentPage - 1) * pageSize : 0;
+	const pageItems = pagination && !manual
+		? items.slice(pageStart, pageStart + pageSize)
+		: items;
+
+	// ─── Detail Rows ───
+	const isExpandable = renderExpandedRow !== undefined;
+	const expandedKeySet = useMemo(() => new Set(expandedKeys), [expandedKeys]);
+
+	// Inserted after paging so expanding a row never pushes others onto the next page
+	const visibleItems = useMemo(
+		() => isExpandable
+			? pageItems.flatMap((item): DisplayItem<T>[] =>
+				item.type === 'row' && expandedKeySet.has(item.key)
+					? [item, { type: 'detail', key: item.key, row: item.row }]
+					: [item])
+			: pageItems,
+		[isExpandable, pageItems, expandedKeySet]
+	);
+
+	const toggleExpanded = useCallback((key: RowKey, nextExpanded = !expandedKeySet.has(key)) => {
+		if (nextExpanded === expandedKeySet.has(key)) return;
+
+		if (singleExpand) {
+			setExpandedKeys(nextExpanded ? [key] : []);
+		} else {
+			setExpandedKeys(nextExpanded
+				? [...expandedKeys, key]
+				: expandedKeys.filter(expanded => expanded !== key));
+		}
+	}, [expandedKeys, expandedKeySet, singleExpand, setExpandedKeys]);
+
+	const handleExpanderKeyDown = (event: KeyboardEvent, key: RowKey) => {
+		if (event.key === 'ArrowRight') {
+			event.preventDefault();
+			toggleExpanded(key, true);
+		} else if (event.key === 'ArrowLeft') {
+			event.preventDefault();
+			toggleExpanded(key, false);
+		}
+	};
+
+	const handleRowClick = (event: MouseEvent, key: RowKey) => {
+		// Leave clicks on interactive cell content (checkboxes, links, buttons) alone
+		const target = event.target as HTMLElement;
+		if (target.closest(INTERACTIVE_SELECTOR)) return;
+		toggleExpanded(key);
+	};
+
+	/** Id linking an expander to its details, in both the grid and the card layout */
+	const getDetailId = (key: RowKey) => `${tableId}-detail-${key}`;
+
+	const handlePageChange = useCallback((nextPage: number) => {
+		setPage(nextPage);
+		emitQuery({ page: nextPage });
+	}, [setPage, emitQuery]);
 
-			const aStr = String(aVal ?? '');
-			const bStr = String(bVal ?? '');
-			return sortDirection === 'asc'
-				? aStr.localeCompare(bStr)
-				: bStr.localeCompare(aStr);
+	const handlePageSizeChange = useCallback((nextSize: number) => {
+		// Keep the first visible row on screen after resizing
+		const nextPage = Math.floor(pageStart / nextSize) + 1;
+		setPageSize(nextSize);
+		setPage(nextPage);
+		emitQuery({ pageSize: nextSize, page: nextPage });
+	}, [pageStart, setPage, setPageSize, emitQuery]);
+
+	// ─── Selection Logic ───
+	const isSelectable = selectionMode !== 'none';
+	const selectedKeySet = useMemo(() => new Set(selectedKeys), [selectedKeys]);
+	// Range selection follows display order, which differs from sort order when grouped
+	const orderedKeys = useMemo(
+		() => groups ? items.flatMap(item => item.type === 'row' ? [item.key] : []) : rowKeys,
+		[groups, items, rowKeys]
+	);
+	const pageKeys = visibleItems.flatMap(item => item.type === 'row' ? [item.key] : []);
+	const pageSelectedCount = pageKeys.filter(key => selectedKeySet.has(key)).length;
+	const isPageSelected = pageKeys.length > 0 && pageSelectedCount === pageKeys.length;
+
+	const clearSelection = useCallback(() => {
+		setSelectedKeys([]);
+	}, [setSelectedKeys]);
+
+	const handleRowSelect = useCallback((key: RowKey) => {
+		const isShiftRange = shiftKeyRef.current && selectionAnchorRef.current !== null;
+		shiftKeyRef.current = false;
+
+		if (selectionMode === 'single') {
+			setSelectedKeys(selectedKeySet.has(key) ? [] : [key]);
+		} else if (isShiftRange) {
+			// Apply the clicked row's new state to every row back to the anchor
+			const range = getKeyRange(orderedKeys, selectionAnchorRef.current as RowKey, key);
+			const shouldSelect = !selectedKeySet.has(key);
+			const next = new Set(selectedKeySet);
+			range.forEach(rangeKey => shouldSelect ? next.add(rangeKey) : next.delete(rangeKey));
+			setSelectedKeys([...next]);
+		} else {
+			setSelectedKeys(selectedKeySet.has(key)
+				? selectedKeys.filter(selected => selected !== key)
+				: [...selectedKeys, key]);
+		}
+
+		selectionAnchorRef.current = key;
+	}, [selectionMode, selectedKeys, selectedKeySet, setSelectedKeys, orderedKeys]);
+
+	const handlePageSelect = useCallback(() => {
+		const pageKeySet = new Set(pageKeys);
+		setSelectedKeys(isPageSelected
+			? selectedKeys.filter(key => !pageKeySet.has(key))
+			: [...new Set([...selectedKeys, ...pageKeys])]);
+	}, [pageKeys, isPageSelected, selectedKeys, setSelectedKeys]);
+
+	const trackShiftKey = (event: MouseEvent | KeyboardEvent) => {
+		shiftKeyRef.current = event.shiftKey;
+	};
+
+	const selectedRows = useMemo(
+		() => sortedData.filter((_, index) => selectedKeySet.has(rowKeys[index])),
+		[sortedData, rowKeys, selectedKeySet]
+	);
+	// ─── Editing Logic ───
+	const focusCell = useCallback((rowKey: RowKey, columnId: string) => {
+		// Wait for the editor to unmount before returning focus to its cell
+		requestAnimationFrame(() => {
+			scrollRef.current
+				?.querySelector<HTMLElement>(`[data-cell="${CSS.escape(`${rowKey}:${columnId}`)}"]`)
+				?.focus();
+		});
+	}, []);
+
+	const isCellEditable = (column: ColumnDef<T>, row: T) =>
+		onCellEdit !== undefined
+		&& column.editor !== undefined
+		&& (column.editor.isEditable?.(row) ?? true);
+
+	const updateEditingCell = (next: EditingCell | null) => {
+		editingCellRef.current = next;
+		setEditingCell(next);
+	};
+
+	const startEdit = (row: T, rowKey: RowKey, column: ColumnDef<T>) => {
+		if (!column.editor || !isCellEditable(column, row)) return;
+		updateEditingCell({ rowKey, columnId: column.id, value: column.editor.getValue(row) });
+	};
+
+	const commitEdit = (row: T, column: ColumnDef<T>, value: CellValue) => {
+		const current = editingCellRef.current;
+		if (!current || current.columnId !== column.id) return;
+
+		const error = column.editor?.validate?.(value, row);
+		if (error) {
+			updateEditingCell({ ...current, value, error });
+			return;
+		}
+
+		if (value !== column.editor?.getValue(row)) {
+			onCellEdit?.(current.rowKey, column.id, value);
+		}
+		updateEditingCell(null);
+		focusCell(current.rowKey, column.id);
+	};
+
+	const commitToggle = (row: T, rowKey: RowKey, column: ColumnDef<T>, value: boolean) => {
+		const error = column.editor?.validate?.(value, row);
+		setToggleError(error ? { rowKey, columnId: column.id, value, error } : null);
+		if (!error) {
+			onCellEdit?.(rowKey, column.id, value);
+		}
+	};
+
+	const cancelEdit = () => {
+		const current = editingCellRef.current;
+		if (!current) return;
+		updateEditingCell(null);
+		focusCell(current.rowKey, current.columnId);
+	};
+
+	const handleCellKeyDown = (event: KeyboardEvent, row: T, rowKey: RowKey, column: ColumnDef<T>) => {
+		if (event.key === 'Enter' || event.key === 'F2') {
+			event.preventDefault();
+			startEdit(row, rowKey, column);
+		}
+	};
+
+	const showBulkActions = isSelectable && bulkActions !== undefined && selectedRows.length > 0;
+
+	// Utility columns (selection, expander) rendered before the data columns
+	const leadingColumnCount = (isSelectable ? 1 : 0) + (isExpandable ? 1 : 0);
+	const columnCount = visibleColumns.length + leadingColumnCount;
+
+	// ─── Card Layout ───
+	const { width: viewportWidth } = useResponsiveBreakpoints({ disabled: cardBreakpoint === undefined });
+	const isCardLayout = cardBreakpoint !== undefined && viewportWidth < BREAKPOINTS[cardBreakpoint];
+	const cardTitle = visibleColumns.find(column => column.id === cardTitleColumn) ?? visibleColumns[0];
+	const sortableColumns = visibleColumns.filter(column => column.sortable);
+
+	// Headers aren't shown on cards, so the menu offers each sortable column in both directions
+	const sortOptions: SelectOption[] = [
+		{ value: '', label: 'No sorting' },
+		...sortableColumns.flatMap(column => [
+			{ value: `${column.id}:asc`, label: `${getColumnLabel(column)} ascending` },
+			{ value: `${column.id}:desc`, label: `${getColumnLabel(column)} descending` },
+		]),
+	];
+
+	const handleSortSelect = (value: string) => {
+		const separator = value.lastIndexOf(':');
+		applySort(value
+			? [{ columnId: value.slice(0, separator), direction: value.slice(separator + 1) as SortDescriptor['direction'] }]
+			: []);
+	};
+
+	// ─── Pinned Columns ───
+	const headerRowRef = useRef<HTMLTableRowElement>(null);
+	const [stickyOffsets, setStickyOffsets] = useState<number[]>([]);
+	const [scrollEdges, setScrollEdges] = useState({ atStart: true, atEnd: true });
+
+	const leftPinnedCount = visibleColumns.filter(column => column.pinned === 'left').length;
+	const rightPinnedCount = visibleColumns.filter(column => column.pinned === 'right').length;
+	const hasPinnedColumns = leftPinnedCount + rightPinnedCount > 0;
+	// Utility columns stay attached to the left-pinned block
+	const stickyStartCount = leftPinnedCount > 0 ? leadingColumnCount + leftPinnedCount : 0;
+
+	// Measure header cells for sticky offsets and track horizontal scroll for edge shadows
+	useEffect(() => {
+		const headerRow = headerRowRef.current;
+		const container = scrollRef.current;
+		if (!hasPinnedColumns || !headerRow || !container) return;
+
+		const cells = Array.from(headerRow.children);
+
+		const updateEdges = () => {
+			const atStart = container.scrollLeft <= 0;
+			const atEnd = container.scrollLeft >= container.scrollWidth - container.clientWidth - 1;
+			setScrollEdges(previous =>
+				previous.atStart === atStart && previous.atEnd === atEnd ? previous : { atStart, atEnd });
+		};
+
+		const resizeObserver = new ResizeObserver(() => {
+			const widths = cells.map(cell => cell.getBoundingClientRect().width);
+			setStickyOffsets(getStickyOffsets(widths, stickyStartCount, rightPinnedCount));
+			updateEdges();
 		});
-	})();
+
+		cells.forEach(cell => resizeObserver.observe(cell));
+		resizeObserver.observe(container);
+		container.addEventListener('scroll', updateEdges, { passive: true });
+
+		return () => {
+			resizeObserver.disconnect();
+			container.removeEventListener('scroll', updateEdges);
+		};
+	}, [hasPinnedColumns, stickyStartCount, rightPinnedCount, columnCount, visibleColumns]);
+
+	/** Sticky position, background and edge shadow for a cell by its index in the header row */
+	const getPinnedCell = (cellIndex: number, background: string): { className: string; style?: CSSProperties } => {
+		const isStart = cellIndex < stickyStartCount;
+		const isEnd = cellIndex >= columnCount - rightPinnedCount;
+		if (!isStart && !isEnd) return { className: '' };
+
+		const offset = stickyOffsets[cellIndex] ?? 0;
+		const showShadow = isStart
+			? cellIndex === stickyStartCount - 1 && !scrollEdges.atStart
+			: cellIndex === columnCount - rightPinnedCount && !scrollEdges.atEnd;
+
+		return {
+			className: `
+        sticky z-[1] ${background}
+        ${showShadow ? pinnedShadows[isStart ? 'left' : 'right'] : ''}
+      `,
+			style: isStart ? { left: offset } : { right: offset },
+		};
+	};
+
+	// ─── Column Layout Logic ───
+	const updateColumnState = (patch: ColumnState) => {
+		setColumnState({ ...columnState, ...patch });
+	};
+
+	const setColumnWidth = (columnId: string, width: number | undefined) => {
+		const widths = { ...columnState.widths };
+		if (width === undefined) {
+			delete widths[columnId];
+		} else {
+			widths[columnId] = width;
+		}
+		updateColumnState({ widths });
+	};
+
+	const getColumnStyle = (column: ColumnDef<T>): CSSProperties | undefined => {
+		const width = resizeDraft?.columnId === column.id
+			? resizeDraft.width
+			: columnState.widths?.[column.id];
+
+		// min-width stops auto table layout from squeezing a resized column
+		if (width !== undefined) return { width, minWidth: width };
+		return column.width ? { width: column.width } : undefined;
+	};
+
+	const handleResizeStart = (event: PointerEvent<HTMLDivElement>, column: ColumnDef<T>) => {
+		const header = event.currentTarget.parentElement;
+		if (!header) return;
+		event.preventDefault();
+		event.stopPropagation();
+
+		const startX = event.clientX;
+		const startWidth = Math.round(header.getBoundingClientRect().width);
+		const minWidth = column.minWidth ?? MIN_COLUMN_WIDTH;
+		let width = startWidth;
+		isResizingRef.current = true;
+
+		const handleMove = (moveEvent: globalThis.PointerEvent) => {
+			width = Math.max(minWidth, Math.round(startWidth + moveEvent.clientX - startX));
+			setResizeDraft({ columnId: column.id, width });
+		};
+		const handleUp = () => {
+			window.removeEventListener('pointermove', handleMove);
+			window.removeEventListener('pointerup', handleUp);
+			isResizingRef.current = false;
+			setResizeDraft(null);
+			if (width !== startWidth) {
+				setColumnWidth(column.id, width);
+			}
+		};
+
+		window.addEventListener('pointermove', handleMove);
+		window.addEventListener('pointerup', handleUp);
+	};
+
+	// Alt+Left/Right on a focused header resize its column - plain arrows stay with grid navigation
+	const handleResizeKeyDown = (event: KeyboardEvent<HTMLTableCellElement>, column: ColumnDef<T>) => {
+		if (!event.altKey || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return;
+		if (event.target !== event.currentTarget) return;
+		event.preventDefault();
+		event.stopPropagation();
+
+		const current = event.currentTarget.getBoundingClientRect().width;
+		const step = event.key === 'ArrowRight' ? RESIZE_KEYBOARD_STEP : -RESIZE_KEYBOARD_STEP;
+		setColumnWidth(column.id, Math.max(column.minWidth ?? MIN_COLUMN_WIDTH, Math.round(current + step)));
+	};
+
+	const endColumnDrag = () => {
+		setDragColumnId(null);
+		setDropTarget(null);
+	};
+
+	const handleColumnDragStart = (event: DragEvent<HTMLTableCellElement>, columnId: string) => {
+		// A resize handle drag must not also pick up the header
+		if (isResizingRef.current) {
+			event.preventDefault();
+			return;
+		}
+		event.dataTransfer.effectAllowed = 'move';
+		// Firefox only starts a drag when data is set
+		event.dataTransfer.setData('text/plain', columnId);
+		setDragColumnId(columnId);
+	};
+
+	const handleColumnDragOver = (event: DragEvent<HTMLTableCellElement>, columnId: string) => {
+		if (!dragColumnId || dragColumnId === columnId) return;
+		event.preventDefault();
+		event.dataTransfer.dropEffect = 'move';
+
+		const rect = event.currentTarget.getBoundingClientRect();
+		const side = event.clientX < rect.left + rect.width / 2 ? 'before' : 'after';
+		if (dropTarget?.columnId !== columnId || dropTarget.side !== side) {
+			setDropTarget({ columnId, side });
+		}
+	};
+
+	const handleColumnDrop = (event: DragEvent<HTMLTableCellElement>, columnId: string) => {
+		event.preventDefault();
+		if (dragColumnId && dropTarget?.columnId === columnId) {
+			const order = orderedColumns.map(column => column.id);
+			updateColumnState({ order: moveColumn(order, dragColumnId, columnId, dropTarget.side) });
+		}
+		endColumnDrag();
+	};
+
+	const setColumnVisible = (columnId: string, visible: boolean) => {
+		const hidden = (columnState.hidden ?? []).filter(id => id !== columnId);
+		updateColumnState({ hidden: visible ? hidden : [...hidden, columnId] });
+	};
+
+	const moveColumnBy = (columnId: string, direction: -1 | 1) => {
+		const order = orderedColumns.map(column => column.id);
+		const targetId = order[order.indexOf(columnId) + direction];
+		if (!targetId) return;
+		updateColumnState({ order: moveColumn(order, columnId, targetId, direction < 0 ? 'before' : 'after') });
+	};
+
+	// ─── Grid Navigation State ───
+	// Tracked by row and column id so the active cell follows its row through sorting and data updates
+	const tableRef = useRef<HTMLTableElement>(null);
+	const [activeCell, setActiveCell] = useState<GridCell | null>(null);
+	const pendingFocusRef = useRef(false);
+	const gridHasFocusRef = useRef(false);
+
+	// ─── Cell Range State ───
+	const [cellRange, setCellRange] = useState<CellRange | null>(null);
+	const [isDraggingRange, setIsDraggingRange] = useState(false);
+
+	const gridColumnIds = [
+		...(isSelectable ? [SELECTION_COLUMN_ID] : []),
+		...(isExpandable ? [EXPANDER_COLUMN_ID] : []),
+		...visibleColumns.map(column => column.id),
+	];
+
+	// Header, group and data rows in display order - detail rows are not navigable
+	const gridRowIds = useMemo(
+		() => [
+			HEADER_ROW_ID,
+			...visibleItems.flatMap(item =>
+				item.type === 'row' ? [`row:${item.key}`] : item.type === 'group' ? [`group:${item.key}`] : []),
+		],
+		[visibleItems]
+	);
+	const gridRowIndexes = useMemo(
+		() => new Map(gridRowIds.map((rowId, index) => [rowId, index])),
+		[gridRowIds]
+	);
+
+	// Fall back to the first header cell when the active row or column is gone
+	const activeRowId = activeCell && gridRowIndexes.has(activeCell.rowId) ? activeCell.rowId : HEADER_ROW_ID;
+	const activeColIndex = Math.max(0, activeCell ? gridColumnIds.indexOf(activeCell.columnId) : 0);
+
+	/** Roving tabindex props for a grid cell starting at colIndex */
+	const getGridCellProps = (rowId: string, colIndex: number, colSpan = 1) => ({
+		'data-col': colIndex,
+		tabIndex: rowId === activeRowId && activeColIndex >= colIndex && activeColIndex < colIndex + colSpan ? 0 : -1,
+	});
+
+	// ─── Cell Range Logic ───
+	// Ranges cover data cells only - no header, group, selection or expander cells
+	const isRangeCell = (rowId: string, colIndex: number) =>
+		rowId.startsWith('row:') && colIndex >= leadingColumnCount;
+
+	/** Grid row and column bounds of a range, null when its rows or columns are gone */
+	const getRangeBounds = ({ anchor, focus }: CellRange) => {
+		const anchorRow = gridRowIndexes.get(anchor.rowId);
+		const focusRow = gridRowIndexes.get(focus.rowId);
+		const anchorCol = gridColumnIds.indexOf(anchor.columnId);
+		const focusCol = gridColumnIds.indexOf(focus.columnId);
+		if (anchorRow === undefined || focusRow === undefined || anchorCol === -1 || focusCol === -1) return null;
+
+		return {
+			top: Math.min(anchorRow, focusRow),
+			bottom: Math.max(anchorRow, focusRow),
+			left: Math.min(anchorCol, focusCol),
+			right: Math.max(anchorCol, focusCol),
+		};
+	};
+
+	const rangeBounds = cellRange ? getRangeBounds(cellRange) : null;
+	// A single cell is already marked by the focus ring
+	const highlightedRange = rangeBounds && (rangeBounds.top !== rangeBounds.bottom || rangeBounds.left !== rangeBounds.right)
+		? rangeBounds
+		: null;
+
+	const isInRange = (rowId: string, colIndex: number) => {
+		const rowIndex = gridRowIndexes.get(rowId);
+		return highlightedRange !== null && rowIndex !== undefined
+			&& rowIndex >= highlightedRange.top && rowIndex <= highlightedRange.bottom
+			&& colIndex >= highlightedRange.left && colIndex <= highlightedRange.right;
+	};
+
+	/** Overlay with edge borders for a cell inside the highlighted range */
+	const getRangeCellClass = (rowId: string, colIndex: number, isPinned: boolean) => {
+		if (!highlightedRange || !isInRange(rowId, colIndex)) return '';
+
+		const rowIndex = gridRowIndexes.get(rowId);
+		// Sticky cells already position the overlay
+		return `
+      ${isPinned ? '' : 'relative'} ${rangeOverlayStyles}
+      ${rowIndex === highlightedRange.top ? 'after:border-t-2' : ''}
+      ${rowIndex === highlightedRange.bottom ? 'after:border-b-2' : ''}
+      ${colIndex === highlightedRange.left ? 'after:border-l-2' : ''}
+      ${colIndex === highlightedRange.right ? 'after:border-r-2' : ''}
+    `;
+	};
+
+	const rowItemsByGridId = useMemo(
+		() => new Map<string, { key: RowKey; row: T }>(
+			visibleItems.flatMap(item => item.type === 'row' ? [[`row:${item.key}`, item] as const] : [])
+		),
+		[visibleItems]
+	);
+
+	const copyCellRange = (bounds: { top: number; bottom: number; left: number; right: number }) => {
+		const rows = gridRowIds
+			.slice(bounds.top, bounds.bottom + 1)
+			.flatMap(rowId => {
+				const item = rowItemsByGridId.get(rowId);
+				return item ? [item.row] : [];
+			});
+		const rangeColumns = visibleColumns.slice(bounds.left - leadingColumnCount, bounds.right - leadingColumnCount + 1);
+
+		// Clipboard access can be denied (e.g. insecure contexts) - there is nothing to recover in the grid
+		navigator.clipboard?.writeText(serializeCellRange(rows, rangeColumns)).catch(() => undefined);
+	};
+
+	const handleRangeMouseDown = (event: MouseEvent<HTMLTableCellElement>, rowId: string, columnId: string) => {
+		if (event.button !== 0 || (event.target as HTMLElement).closest(INTERACTIVE_SELECTOR)) return;
+		// Suppress native text selection while dragging, then focus the cell ourselves
+		event.preventDefault();
+
+		const cell = { rowId, columnId };
+		const activeIsRangeCell = isRangeCell(activeRowId, activeColIndex);
+		const anchor = !event.shiftKey
+			? cell
+			: cellRange && rangeBounds
+				? cellRange.anchor
+				: activeIsRangeCell ? { rowId: activeRowId, columnId: gridColumnIds[activeColIndex] } : cell;
+
+		setCellRange({ anchor, focus: cell });
+		setIsDraggingRange(!event.shiftKey);
+		event.currentTarget.focus();
+	};
+
+	const handleRangeMouseEnter = (event: MouseEvent<HTMLTableCellElement>, rowId: string, columnId: string) => {
+		if (!isDraggingRange) return;
+		setCellRange(range => range && { anchor: range.anchor, focus: { rowId, columnId } });
+		event.currentTarget.focus();
+	};
+
+	// ─── Paste Logic ───
+	const pasteErrorByCell = useMemo(
+		() => new Map(pasteErrors.map(pasteError => [`${pasteError.rowKey}:${pasteError.columnId}`, pasteError.error])),
+		[pasteErrors]
+	);
+
+	/** Parses a TSV block into per-row changes starting at a data cell, skipping group rows */
+	const pasteCells = (text: string, rowId: string, colIndex: number) => {
+		const startRow = gridRowIndexes.get(rowId);
+		if (startRow === undefined) return;
+
+		const targetRowIds = gridRowIds.slice(startRow).filter(id => rowItemsByGridId.has(id));
+		const changes = new Map<RowKey, PasteRowChange<T>>();
+		const errors: PasteCellError[] = [];
+
+		// Cells past the last row or column are dropped, as in a spreadsheet
+		parseTsv(text).forEach((cells, rowOffset) => {
+			const target = rowItemsByGridId.get(targetRowIds[rowOffset]);
+			if (!target) return;
+
+			cells.forEach((cellText, colOffset) => {
+				const column = visibleColumns[colIndex - leadingColumnCount + colOffset];
+				if (!column) return;
+
+				const reject = (error: string) => {
+					errors.push({ rowKey: target.key, columnId: column.id, text: cellText, error });
+				};
+
+				if (!column.editor || column.editor.isEditable?.(target.row) === false) {
+					reject(`${getColumnLabel(column)} is read-only`);
+					return;
+				}
+
+				const value = column.parseValue
+					? column.parseValue(cellText, target.row)
+					: parseCellText(column.editor, cellText);
+				if (value === undefined && cellText.trim() !== '') {
+					reject(`"${cellText}" is not a valid ${getColumnLabel(column)}`);
+					return;
+				}
+
+				const error = column.editor.validate?.(value, target.row);
+				if (error) {
+					reject(error);
+					return;
+				}
+
+				if (value === column.editor.getValue(target.row)) return;
+
+				const change = changes.get(target.key) ?? { rowKey: target.key, row: target.row, values: {} };
+				change.values[column.id] = value;
+				changes.set(target.key, change);
+			});
+		});
+
+		setPasteErrors(errors);
+		if (changes.size > 0 || errors.length > 0) {
+			onPasteRows?.([...changes.values()], errors);
+		}
+	};
+
+	// Paste targets the focused cell, or the top-left of the highlighted range
+	const handlePaste = (event: ClipboardEvent) => {
+		const cell = document.activeElement;
+		if (!(cell instanceof HTMLElement) || !cell.matches('[data-col]') || !tableRef.current?.contains(cell)) return;
+
+		const rowId = highlightedRange ? gridRowIds[highlightedRange.top] : cell.closest('tr')?.dataset.rowId;
+		const colIndex = highlightedRange ? highlightedRange.left : Number(cell.dataset.col);
+		const text = event.clipboardData?.getData('text/plain');
+		if (rowId === undefined || !text || !isRangeCell(rowId, colIndex)) return;
+
+		event.preventDefault();
+		pasteCells(text, rowId, colIndex);
+	};
+
+	// The document listener calls the latest handler through a ref, so it is registered once
+	const handlePasteRef = useRef(handlePaste);
+	useEffect(() => {
+		handlePasteRef.current = handlePaste;
+	});
+
+	const isPasteEnabled = onPasteRows !== undefined;
+	useEffect(() => {
+		if (!isPasteEnabled) return;
+
+		const listener = (event: ClipboardEvent) => handlePasteRef.current(event);
+		document.addEventListener('paste', listener);
+		return () => document.removeEventListener('paste', listener);
+	}, [isPasteEnabled]);
+
+	// A drag ends wherever the mouse is released
+	useEffect(() => {
+		if (!isDraggingRange) return;
+
+		const handleMouseUp = () => setIsDraggingRange(false);
+		window.addEventListener('mouseup', handleMouseUp);
+		return () => window.removeEventListener('mouseup', handleMouseUp);
+	}, [isDraggingRange]);
+
+	// ─── Virtual Window ───
+	const defaultRowHeight = compact ? ROW_HEIGHTS.compact : ROW_HEIGHTS.regular;
+	const getRowHeight = useCallback((index: number) => {
+		const item = visibleItems[index];
+		if (item.type === 'detail') {
+			return expandedRowHeight;
+		}
+		if (typeof rowHeight === 'function' && item.type === 'row') {
+			return rowHeight(item.row, item.index);
+		}
+		return typeof rowHeight === 'number' ? rowHeight : defaultRowHeight;
+	}, [rowHeight, visibleItems, defaultRowHeight, expandedRowHeight]);
+
+	const { startIndex, endIndex, paddingTop, paddingBottom } = useVirtualRows({
+		count: visibleItems.length,
+		rowHeight: typeof rowHeight === 'function' || isExpandable ? getRowHeight : rowHeight ?? defaultRowHeight,
+		scrollRef,
+		overscan,
+		disabled: !virtualized || isCardLayout,
+	});
+	// The grid stays mounted but hidden while cards are shown, so it renders no rows
+	const renderedItems = isCardLayout ? [] : virtualized ? visibleItems.slice(startIndex, endIndex) : visibleItems;
+	const scrollMaxHeight = maxHeight ?? (virtualized ? DEFAULT_VIRTUAL_MAX_HEIGHT : undefined);
+
+	// ─── Grid Navigation Logic ───
+	const getCellElement = useCallback((rowId: string, colIndex: number): HTMLElement | null => {
+		const row = tableRef.current?.querySelector(`tr[data-row-id="${CSS.escape(rowId)}"]`);
+		if (!row) return null;
+
+		// Spanning cells cover every column up to the next cell's start
+		const cells = Array.from(row.querySelectorAll<HTMLElement>(':scope > [data-col]'));
+		return cells.filter(cell => Number(cell.dataset.col) <= colIndex).pop() ?? null;
+	}, []);
+
+	const moveFocus = (rowId: string, colIndex: number) => {
+		setActiveCell({ rowId, columnId: gridColumnIds[colIndex] });
+
+		const element = getCellElement(rowId, colIndex);
+		if (element) {
+			element.focus();
+			return;
+		}
+
+		// Virtualized row outside the rendered window - scroll it in and focus after render
+		const itemIndex = visibleItems.findIndex(item => `${item.type}:${item.key}` === rowId);
+		const container = scrollRef.current;
+		if (itemIndex !== -1 && container) {
+			let offset = 0;
+			for (let i = 0; i < itemIndex; i++) {
+				offset += getRowHeight(i);
+			}
+			container.scrollTop = offset;
+		}
+		pendingFocusRef.current = true;
+	};
+
+	const handleGridKeyDown = (event: KeyboardEvent<HTMLTableElement>) => {
+		const cell = event.target as HTMLElement;
+		// Only cells navigate - widgets and editors inside cells keep their own keys
+		if (event.defaultPrevented || !cell.matches('[data-col]')) return;
+
+		const rowId = cell.closest('tr')?.dataset.rowId;
+		const rowIndex = rowId === undefined ? undefined : gridRowIndexes.get(rowId);
+		if (rowId === undefined || rowIndex === undefined) return;
+
+		const colIndex = Number(cell.dataset.col);
+		const colSpan = (cell as HTMLTableCellElement).colSpan || 1;
+		const lastRow = gridRowIds.length - 1;
+		const lastCol = gridColumnIds.length - 1;
+		const rowsPerPage = Math.max(1, Math.floor((scrollRef.current?.clientHeight ?? 0) / defaultRowHeight) - 1);
+
+		// Spanning cells remember the column that navigation entered them from
+		const currentCol = rowId === activeRowId && activeColIndex >= colIndex && activeColIndex < colIndex + colSpan
+			? activeColIndex
+			: colIndex;
+		let nextRow = rowIndex;
+		let nextCol = currentCol;
+
+		// Ctrl/Cmd+C copies the range (or the focused cell), Shift+arrows grow the range from its anchor
+		if (cellSelection && isRangeCell(rowId, colIndex)) {
+			if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'c') {
+				event.preventDefault();
+				copyCellRange(rangeBounds ?? { top: rowIndex, bottom: rowIndex, left: colIndex, right: colIndex });
+				return;
+			}
+
+			if (event.shiftKey && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.key)) {
+				let targetRow = rowIndex;
+				let targetCol = colIndex;
+
+				if (event.key === 'ArrowRight') {
+					targetCol = Math.min(lastCol, colIndex + 1);
+				} else if (event.key === 'ArrowLeft') {
+					targetCol = Math.max(leadingColumnCount, colIndex - 1);
+				} else {
+					// Step over group header rows to the next data row
+					const step = event.key === 'ArrowDown' ? 1 : -1;
+					for (let i = rowIndex + step; i > 0 && i <= lastRow; i += step) {
+						if (gridRowIds[i].startsWith('row:')) {
+							targetRow = i;
+							break;
+						}
+					}
+				}
+
+				const focus = { rowId: gridRowIds[targetRow], columnId: gridColumnIds[targetCol] };
+				const anchor = cellRange && rangeBounds ? cellRange.anchor : { rowId, columnId: gridColumnIds[colIndex] };
+				event.preventDefault();
+				setCellRange({ anchor, focus });
+				moveFocus(focus.rowId, targetCol);
+				return;
+			}
+		}
+
+		// Right/Left on a tree row's first column expand, collapse or climb to the parent
+		const treeRow = colIndex === leadingColumnCount
+			? treeRows?.find(candidate => `row:${candidate.key}` === rowId)
+			: undefined;
+		if (treeRow && !isTreeFiltered && (event.key === 'ArrowRight' || event.key === 'ArrowLeft')) {
+			const isParent = treeRow.node.children.length > 0;
+			const isOpen = isParent && treeExpandedKeySet.has(treeRow.key);
+
+			if (event.key === 'ArrowRight' && isParent && !isOpen) {
+				event.preventDefault();
+				toggleTreeRow(treeRow.key, true);
+				return;
+			}
+			if (event.key === 'ArrowLeft') {
+				event.preventDefault();
+				if (isOpen) {
+					toggleTreeRow(treeRow.key, false);
+				} else if (treeRow.parentKey !== null) {
+					moveFocus(`row:${treeRow.parentKey}`, colIndex);
+				} else if (colIndex > 0) {
+					moveFocus(rowId, colIndex - 1);
+				}
+				return;
+			}
+		}
+
+		switch (event.key) {
+			case 'ArrowRight':
+				nextCol = Math.min(lastCol, colIndex + colSpan);
+				break;
+			case 'ArrowLeft':
+				nextCol = Math.max(0, colIndex - 1);
+				break;
+			case 'ArrowDown':
+				nextRow = Math.min(lastRow, rowIndex + 1);
+				break;
+			case 'ArrowUp':
+				nextRow = Math.max(0, rowIndex - 1);
+				break;
+			case 'PageDown':
+				nextRow = Math.min(lastRow, rowIndex + rowsPerPage);
+				break;
+			case 'PageUp':
+				nextRow = Math.max(0, rowIndex - rowsPerPage);
+				break;
+			case 'Home':
+				nextCol = 0;
+				if (event.ctrlKey || event.metaKey) nextRow = 0;
+				break;
+			case 'End':
+				nextCol = lastCol;
+				if (event.ctrlKey || event.metaKey) nextRow = lastRow;
+				break;
+			case 'Enter':
+			case ' ': {
+				const column = rowId === HEADER_ROW_ID
+					? visibleColumns[colIndex - leadingColumnCount]
+					: undefined;
+
+				if (column?.sortable) {
+					event.preventDefault();
+					handleSort(column.id, event.shiftKey);
+					return;
+				}
+
+				// Activate the cell's widget (checkbox, expander, group toggle, inline toggle)
+				const widget = cell.querySelector<HTMLElement>(CELL_WIDGET_SELECTOR);
+				if (widget) {
+					event.preventDefault();
+					widget.click();
+				}
+				return;
+			}
+			case 'Escape':
+				if (cellRange) {
+					event.preventDefault();
+					setCellRange(null);
+				}
+				return;
+			default:
+				return;
+		}
+
+		event.preventDefault();
+		// Plain navigation collapses the range to the focused cell
+		if (cellRange) setCellRange(null);
+		moveFocus(gridRowIds[nextRow], nextCol);
+	};
+
+	const handleGridFocus = (event: FocusEvent<HTMLTableElement>) => {
+		gridHasFocusRef.current = true;
+
+		// Clicks and programmatic focus move the roving tab stop too
+		const cell = (event.target as HTMLElement).closest<HTMLElement>('[data-col]');
+		const rowId = cell?.closest('tr')?.dataset.rowId;
+		if (!cell || rowId === undefined) return;
+
+		const columnId = gridColumnIds[Number(cell.dataset.col)];
+		if (activeCell?.rowId !== rowId || activeCell.columnId !== columnId) {
+			setActiveCell({ rowId, columnId });
+		}
+	};
+
+	const handleGridBlur = (event: FocusEvent<HTMLTableElement>) => {
+		// A null relatedTarget may mean the focused cell was re-rendered away, so keep tracking
+		if (event.relatedTarget && !event.currentTarget.contains(event.relatedTarget as Node)) {
+			gridHasFocusRef.current = false;
+		}
+	};
+
+	// Clicking outside the grid ends focus tracking even when nothing else takes focus
+	useEffect(() => {
+		const handlePointerDown = (event: globalThis.PointerEvent) => {
+			if (!tableRef.current?.contains(event.target as Node)) {
+				gridHasFocusRef.current = false;
+				setCellRange(null);
+			}
+		};
+		document.addEventListener('pointerdown', handlePointerDown);
+		return () => document.removeEventListener('pointerdown', handlePointerDown);
+	}, []);
+
+	// Restore focus after sorting, filtering, data updates or virtual scrolling re-render the active cell
+	useEffect(() => {
+		const focusLost = gridHasFocusRef.current
+			&& (document.activeElement === null || document.activeElement === document.body);
+		if (!pendingFocusRef.current && !focusLost) return;
+
+		const element = getCellElement(activeRowId, activeColIndex);
+		if (element) {
+			element.focus();
+			pendingFocusRef.current = false;
+		}
+	});
+
+	// ─── Surface Cell Pinning (header, filter, group and footer rows) ───
+	const leadingSurfacePin = getPinnedCell(0, 'bg-bg-surface');
+	const expanderSurfacePin = getPinnedCell(isSelectable ? 1 : 0, 'bg-bg-surface');
 
 	// ─── Cell Padding ───
 	const cellPadding = compact ? 'px-3 py-2' : 'px-4 py-3';
 
 	// ─── Sort Icon ───
 	const SortIcon = ({ columnId }: { columnId: string }) => {
-		const isActive = sortColumn === columnId;
+		const priority = sort.findIndex(descriptor => descriptor.columnId === columnId);
+		const isActive = priority !== -1;
 		const Icon = !isActive
 			? ChevronsUpDown
-			: sortDirection === 'asc'
+			: sort[priority].direction === 'asc'
 				? ChevronUp
 				: ChevronDown;
 
 		return (
-			<Icon
-				size={14}
-				className={`
-          ml-1 inline-block
-          ${isActive ? 'text-accent-primary' : 'text-text-muted'}
-        `}
-			/>
+			<>
+				<Icon
+					size={14}
+					className={`
+            ml-1 inline-block
+            ${isActive ? 'text-accent-primary' : 'text-text-muted'}
+          `}
+				/>
+
+				{/* Priority indicator - only meaningful with several sorted columns */}
+				{isActive && sort.length > 1 && (
+					<span
+						className="ml-0.5 text-[10px] font-semibold text-accent-primary tabular-nums"
+						aria-label={`Sort priority ${priority + 1}`}
+					>
+						{priority + 1}
+					</span>
+				)}
+			</>
 		);
 	};
 
@@ -151,44 +2008,411 @@ export function DataTable<T>({
         ${className}
       `}
 		>
+			{/* Toolbar */}
+			{(globalSearch || columnChooser || exportFormats.length > 0 || viewsKey || groupableColumns.length > 0 || (isCardLayout && sortableColumns.length > 0)) && (
+				<div
+					className={`
+            flex flex-wrap items-center gap-3
+            ${compact ? 'px-3 py-2' : 'px-4 py-3'}
+            border-b border-border-subtle
+            bg-bg-surface
+          `}
+				>
+					{globalSearch && (
+						<>
+							<Search size={16} className="text-text-muted flex-shrink-0" />
+							<div className="flex-1 max-w-sm">
+								<TextInput
+									size="sm"
+									type="search"
+									fullWidth
+									aria-label="Search table"
+									placeholder={searchPlaceholder}
+									value={globalFilter}
+									onChange={(e) => handleGlobalFilterChange(e.target.value)}
+								/>
+							</div>
+						</>
+					)}
+
+					{hasActiveFilters && (
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={clearFilters}
+						>
+							Clear filters
+						</Button>
+					)}
+
+					{/* Group By */}
+					{groupableColumns.length > 0 && !getSubRows && (
+						<Select
+							size="sm"
+							aria-label="Group rows"
+							value={typeof groupBy === 'string' ? groupBy : ''}
+							onChange={(e) => handleGroupByChange(e.target.value)}
+							options={[
+								{ value: '', label: 'No grouping' },
+								...groupableColumns.map(column => ({ value: column.id, label: `Group by ${getColumnLabel(column)}` })),
+							]}
+						/>
+					)}
+
+					{/* Sort Menu - cards have no headers to click */}
+					{isCardLayout && sortableColumns.length > 0 && (
+						<Select
+							size="sm"
+							aria-label="Sort rows"
+							value={sort[0] ? `${sort[0].columnId}:${sort[0].direction}` : ''}
+							onChange={(e) => handleSortSelect(e.target.value)}
+							options={sortOptions}
+						/>
+					)}
+
+					<span className="ml-auto text-xs text-text-muted whitespace-nowrap">
+						{manual || filteredData.length === sourceRows.length
+							? `${(manual ? rowTotal : sourceRows.length).toLocaleString()} rows`
+							: `${filteredData.length.toLocaleString()} of ${sourceRows.length.toLocaleString()} rows`}
+					</span>
+
+					{/* Saved Views */}
+					{viewsKey && (
+						<ViewsMenu
+							views={views}
+							activeViewId={activeViewId}
+							isModified={isViewModified}
+							onSelect={selectView}
+							onSave={saveView}
+							onUpdate={updateActiveView}
+							onDelete={deleteView}
+						/>
+					)}
+
+					{/* Column Chooser */}
+					{columnChooser && (
+						<ColumnChooser
+							items={orderedColumns.map(column => ({
+								id: column.id,
+								label: getColumnLabel(column),
+								visible: visibleColumns.includes(column),
+								hideable: column.hideable !== false,
+							}))}
+							onVisibilityChange={setColumnVisible}
+							onMove={moveColumnBy}
+							onReset={() => setColumnState({})}
+						/>
+					)}
+
+					{/* Export Buttons */}
+					{exportFormats.length > 0 && (
+						<div role="group" aria-label="Export" className="flex items-center gap-1">
+							{exportFormats.map(format => (
+								<Button
+									key={format}
+									variant="secondary"
+									size="sm"
+									leftIcon={<Download size={14} />}
+									aria-label={`Export as ${format.toUpperCase()}`}
+									onClick={() => exportData({ format, scope: exportScope })}
+								>
+									{format.toUpperCase()}
+								</Button>
+							))}
+						</div>
+					)}
+				</div>
+			)}
+
+			{/* Paste Errors */}
+			{pasteErrors.length > 0 && (
+				<div
+					role="alert"
+					className={`
+            flex flex-wrap items-center gap-3
+            ${compact ? 'px-3 py-2' : 'px-4 py-2.5'}
+            bg-warning-muted
+            border-b border-border-subtle
+            text-sm text-text-primary
+          `}
+				>
+					<span>
+						{pasteErrors.length.toLocaleString()} pasted {pasteErrors.length === 1 ? 'cell was' : 'cells were'} rejected - hover the outlined cells for details
+					</span>
+
+					<div className="ml-auto">
+						<Button variant="ghost" size="sm" onClick={() => setPasteErrors([])}>
+							Dismiss
+						</Button>
+					</div>
+				</div>
+			)}
+
+			{/* Bulk-Action Toolbar */}
+			{showBulkActions && (
+				<div
+					role="toolbar"
+					aria-label="Bulk actions"
+					className={`
+            flex flex-wrap items-center gap-3
+            ${compact ? 'px-3 py-2' : 'px-4 py-2.5'}
+            bg-accent-primary-muted
+            border-b border-border-subtle
+            text-sm text-text-primary
+          `}
+				>
+					<span className="font-medium">
+						{selectedRows.length.toLocaleString()} selected
+					</span>
+
+					{/* Offer to extend a full-page selection to every row */}
+					{selectionMode === 'multi' && isPageSelected && selectedRows.length < rowKeys.length && (
+						<Button variant="ghost" size="sm" onClick={() => setSelectedKeys(rowKeys)}>
+							Select all {rowKeys.length.toLocaleString()} rows
+						</Button>
+					)}
+
+					<Button variant="ghost" size="sm" onClick={clearSelection}>
+						Clear selection
+					</Button>
+
+					<div className="flex items-center gap-2 ml-auto">
+						{bulkActions(selectedRows, clearSelection)}
+					</div>
+				</div>
+			)}
+
+			{/* Card Layout - replaces the grid below the card breakpoint */}
+			{isCardLayout && (
+				<TableCardList
+					items={visibleItems}
+					columns={visibleColumns}
+					titleColumn={cardTitle}
+					loading={loading}
+					skeletonCount={skeletonRowCount}
+					emptyMessage={emptyMessage}
+					formatGroupLabel={formatGroupLabel}
+					onToggleGroup={toggleGroup}
+					selectable={isSelectable}
+					selectedKeys={selectedKeySet}
+					onSelectRow={handleRowSelect}
+					onSelectModifiers={trackShiftKey}
+					expandable={isExpandable}
+					expandedKeys={expandedKeySet}
+					onToggleExpanded={toggleExpanded}
+					renderExpandedRow={renderExpandedRow}
+					getDetailId={getDetailId}
+					treeRows={treeRowByKey}
+					treeExpandedKeys={treeExpandedKeySet}
+					treeFiltered={isTreeFiltered}
+					onToggleTreeRow={toggleTreeRow}
+					aggregateParentRows={aggregateParentRows}
+					formatDomains={formatDomains}
+					aggregates={aggregates}
+					footerLabel={footerLabel}
+					compact={compact}
+					maxHeight={maxHeight}
+				/>
+			)}
+
 			<div
-				className="overflow-auto"
-				style={maxHeight ? { maxHeight } : undefined}
+				ref={scrollRef}
+				className={isCardLayout ? 'hidden' : 'grid overflow-auto'}
+				style={scrollMaxHeight ? { maxHeight: scrollMaxHeight } : undefined}
 			>
-				<table className="w-full border-collapse">
+				<table
+					ref={tableRef}
+					role={getSubRows ? 'treegrid' : 'grid'}
+					aria-busy={loading || undefined}
+					aria-multiselectable={selectionMode === 'multi' || undefined}
+					className="col-start-1 row-start-1 w-full border-collapse"
+					onKeyDown={handleGridKeyDown}
+					onFocus={handleGridFocus}
+					onBlur={handleGridBlur}
+				>
 					{/* Header */}
 					<thead className="bg-bg-surface sticky top-0 z-10">
-						<tr>
-							{columns.map(column => (
+						<tr ref={headerRowRef} data-row-id={HEADER_ROW_ID}>
+							{/* Selection Column Header */}
+							{isSelectable && (
 								<th
-									key={column.id}
+									{...getGridCellProps(HEADER_ROW_ID, 0)}
 									className={`
                     ${cellPadding}
-                    text-xs font-semibold uppercase tracking-wider
-                    text-text-secondary
-                    border-b border-border-subtle
-                    ${alignStyles[column.align || 'left']}
-                    ${column.sortable ? 'cursor-pointer select-none hover:text-text-primary' : ''}
-                    ${column.headerClassName || ''}
+                    w-10
+                    ${hasColumnFilters ? '' : 'border-b border-border-subtle'}
+                    ${gridCellFocusStyles}
+                    ${leadingSurfacePin.className}
                   `}
-									style={column.width ? { width: column.width } : undefined}
-									onClick={() => column.sortable && handleSort(column.id)}
+									style={leadingSurfacePin.style}
 								>
-									<span className="inline-flex items-center">
-										{column.header}
-										{column.sortable && <SortIcon columnId={column.id} />}
-									</span>
+									{selectionMode === 'multi' && (
+										<Checkbox
+											size="sm"
+											tabIndex={-1}
+											aria-label={isPageSelected ? 'Deselect all rows on page' : 'Select all rows on page'}
+											checked={isPageSelected}
+											indeterminate={pageSelectedCount > 0 && !isPageSelected}
+											onChange={handlePageSelect}
+											disabled={pageKeys.length === 0}
+										/>
+									)}
 								</th>
-							))}
+							)}
+
+							{/* Expander Column Header */}
+							{isExpandable && (
+								<th
+									{...getGridCellProps(HEADER_ROW_ID, isSelectable ? 1 : 0)}
+									className={`
+                    ${cellPadding}
+                    w-10
+                    ${hasColumnFilters ? '' : 'border-b border-border-subtle'}
+                    ${gridCellFocusStyles}
+                    ${expanderSurfacePin.className}
+                  `}
+									style={expanderSurfacePin.style}
+								>
+									<span className="sr-only">Expand row</span>
+								</th>
+							)}
+
+							{visibleColumns.map((column, columnIndex) => {
+								const isResizable = resizableColumns && column.resizable !== false;
+								const dropSide = dropTarget?.columnId === column.id ? dropTarget.side : null;
+								const pin = getPinnedCell(leadingColumnCount + columnIndex, 'bg-bg-surface');
+								// aria-sort belongs on one header at a time - the primary sort column
+								const ariaSort = !column.sortable
+									? undefined
+									: sort[0]?.columnId === column.id
+										? sort[0].direction === 'asc' ? 'ascending' : 'descending'
+										: 'none';
+
+								return (
+									<th
+										key={column.id}
+										{...getGridCellProps(HEADER_ROW_ID, leadingColumnCount + columnIndex)}
+										aria-sort={ariaSort}
+										className={`
+                      ${cellPadding}
+                      ${pin.className || 'relative'}
+                      ${gridCellFocusStyles}
+                      text-xs font-semibold uppercase tracking-wider
+                      text-text-secondary
+                      ${hasColumnFilters ? '' : 'border-b border-border-subtle'}
+                      ${alignStyles[column.align || 'left']}
+                      ${column.sortable ? 'cursor-pointer select-none hover:text-text-primary' : ''}
+                      ${reorderableColumns ? 'cursor-grab' : ''}
+                      ${dragColumnId === column.id ? 'opacity-50' : ''}
+                      ${dropSide === 'before' ? 'shadow-[inset_2px_0_0_var(--color-accent-primary)]' : ''}
+                      ${dropSide === 'after' ? 'shadow-[inset_-2px_0_0_var(--color-accent-primary)]' : ''}
+                      ${column.headerClassName || ''}
+                    `}
+										style={{ ...getColumnStyle(column), ...pin.style }}
+										onClick={(e) => column.sortable && handleSort(column.id, e.shiftKey)}
+										draggable={reorderableColumns}
+										onDragStart={reorderableColumns ? (e) => handleColumnDragStart(e, column.id) : undefined}
+										onDragOver={reorderableColumns ? (e) => handleColumnDragOver(e, column.id) : undefined}
+										onDrop={reorderableColumns ? (e) => handleColumnDrop(e, column.id) : undefined}
+										onDragEnd={reorderableColumns ? endColumnDrag : undefined}
+										onKeyDown={isResizable ? (e) => handleResizeKeyDown(e, column) : undefined}
+										aria-keyshortcuts={isResizable ? 'Alt+ArrowLeft Alt+ArrowRight' : undefined}
+									>
+										<span className="inline-flex items-center">
+											{column.header}
+											{column.sortable && <SortIcon columnId={column.id} />}
+										</span>
+
+										{/* Resize Handle - drag, or double-click to reset (Alt+arrows on the header resize from the keyboard) */}
+										{isResizable && (
+											<div
+												role="separator"
+												aria-orientation="vertical"
+												aria-label={`Resize ${getColumnLabel(column)}`}
+												tabIndex={-1}
+												onPointerDown={(e) => handleResizeStart(e, column)}
+												onDoubleClick={() => setColumnWidth(column.id, undefined)}
+												onClick={(e) => e.stopPropagation()}
+												className={`
+                          absolute top-0 right-0
+                          h-full w-1.5
+                          cursor-col-resize select-none touch-none
+                          transition-colors duration-[var(--transition-fast)]
+                          hover:bg-accent-primary/40
+                          focus:outline-none focus-visible:bg-accent-primary
+                          ${resizeDraft?.columnId === column.id ? 'bg-accent-primary' : ''}
+                        `}
+											/>
+										)}
+									</th>
+								);
+							})}
 						</tr>
+
+						{/* Filter Row */}
+						{hasColumnFilters && (
+							<tr>
+								{leadingColumnCount > 0 && (
+									<th
+										colSpan={leadingColumnCount}
+										className={`border-b border-border-subtle ${leadingSurfacePin.className}`}
+										style={leadingSurfacePin.style}
+									/>
+								)}
+
+								{visibleColumns.map((column, columnIndex) => {
+									const pin = getPinnedCell(leadingColumnCount + columnIndex, 'bg-bg-surface');
+
+									return (
+										<th
+											key={column.id}
+											className={`
+                        ${compact ? 'px-3 pb-2' : 'px-4 pb-3'}
+                        font-normal
+                        border-b border-border-subtle
+                        ${pin.className}
+                      `}
+											style={pin.style}
+										>
+											{column.filter && (
+												<ColumnFilter
+													filter={column.filter}
+													value={filters[column.id]}
+													onChange={(value) => handleFilterChange(column.id, value)}
+													options={enumOptions[column.id] ?? []}
+													label={getColumnLabel(column)}
+												/>
+											)}
+										</th>
+									);
+								})}
+							</tr>
+						)}
 					</thead>
 
 					{/* Body */}
 					<tbody>
-						{sortedData.length === 0 ? (
+						{visibleItems.length === 0 && loading ? (
+							Array.from({ length: skeletonRowCount }, (_, skeletonIndex) => (
+								<tr
+									key={`skeleton:${skeletonIndex}`}
+									aria-hidden="true"
+									className="border-b border-border-subtle last:border-b-0"
+								>
+									{Array.from({ length: columnCount }, (_, cellIndex) => (
+										<td key={cellIndex} className={cellPadding}>
+											<div
+												className="h-3 rounded bg-bg-hover animate-pulse"
+												style={{ width: `${SKELETON_WIDTHS[(skeletonIndex + cellIndex) % SKELETON_WIDTHS.length]}%` }}
+											/>
+										</td>
+									))}
+								</tr>
+							))
+						) : visibleItems.length === 0 ? (
 							<tr>
 								<td
-									colSpan={columns.length}
+									colSpan={columnCount}
 									className={`
                     ${cellPadding}
                     text-center text-text-muted
@@ -198,35 +2422,386 @@ export function DataTable<T>({
 								</td>
 							</tr>
 						) : (
-							sortedData.map((row, index) => (
-								<tr
-									key={getRowKey(row, index)}
-									className={`
-                    border-b border-border-subtle
-                    last:border-b-0
-                    ${striped && index % 2 === 1 ? 'bg-bg-surface/50' : 'bg-transparent'}
-                    ${hoverable ? 'hover:bg-bg-hover transition-colors' : ''}
-                  `}
-								>
-									{columns.map(column => (
+							<>
+								{/* Spacer for rows scrolled out above the viewport */}
+								{paddingTop > 0 && (
+									<tr aria-hidden="true" style={{ height: paddingTop }} />
+								)}
+
+								{renderedItems.map((item, renderIndex) => {
+									const index = virtualized ? startIndex + renderIndex : renderIndex;
+
+									// Group Header Row
+									if (item.type === 'group') {
+										return (
+											<tr
+												key={`group:${item.key}`}
+												data-row-id={`group:${item.key}`}
+												className="bg-bg-surface border-b border-border-subtle"
+												style={virtualized ? { height: getRowHeight(index) } : undefined}
+											>
+												{leadingColumnCount > 0 && (
+													<td
+														{...getGridCellProps(`group:${item.key}`, 0, leadingColumnCount)}
+														colSpan={leadingColumnCount}
+														className={`${cellPadding} ${gridCellFocusStyles} ${leadingSurfacePin.className}`}
+														style={leadingSurfacePin.style}
+													/>
+												)}
+
+												{visibleColumns.map((column, columnIndex) => {
+													const pin = getPinnedCell(leadingColumnCount + columnIndex, 'bg-bg-surface');
+
+													return (
+														<td
+															key={column.id}
+															{...getGridCellProps(`group:${item.key}`, leadingColumnCount + columnIndex)}
+															className={`
+                                    ${cellPadding}
+                                    text-sm font-semibold text-text-primary
+                                    ${alignStyles[columnIndex === 0 ? 'left' : column.align || 'left']}
+                                    ${gridCellFocusStyles}
+                                    ${pin.className}
+                                  `}
+															style={pin.style}
+														>
+															{columnIndex === 0 ? (
+																<button
+																	type="button"
+																	tabIndex={-1}
+																	onClick={() => toggleGroup(item.key)}
+																	aria-expanded={item.expanded}
+																	className="
+                                    inline-flex items-center gap-2
+                                    rounded
+                                    focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus
+                                  "
+																>
+																	<ChevronDown
+																		size={16}
+																		className={`
+                                      text-text-muted
+                                      transition-transform duration-[var(--transition-normal)]
+                                      ${item.expanded ? 'rotate-0' : '-rotate-90'}
+                                    `}
+																	/>
+																	<span>
+																		{formatGroupLabel ? formatGroupLabel(item.key, item.rows) : item.key || '—'}
+																	</span>
+																	<span className="text-xs font-normal text-text-muted">
+																		({item.rows.length.toLocaleString()})
+																	</span>
+																</button>
+															) : column.aggregate ? (
+																<span className="tabular-nums">
+																	{formatAggregate(column, groupAggregates.get(item.key)?.[columnIndex] ?? null)}
+																</span>
+															) : null}
+														</td>
+													);
+												})}
+											</tr>
+										);
+									}
+
+									// Detail Row
+									if (item.type === 'detail') {
+										return (
+											<tr
+												key={`detail:${item.key}`}
+												id={getDetailId(item.key)}
+												className="border-b border-border-subtle bg-bg-base/40"
+												style={virtualized ? { height: getRowHeight(index) } : undefined}
+											>
+												<td colSpan={columnCount} className={`${cellPadding} text-sm text-text-primary`}>
+													{renderExpandedRow?.(item.row)}
+												</td>
+											</tr>
+										);
+									}
+
+									const { row, key: rowKey } = item;
+									const isSelected = isSelectable && selectedKeySet.has(rowKey);
+									const isExpanded = isExpandable && expandedKeySet.has(rowKey);
+
+									// Pinned cells need an opaque fill - layer the row tint over the panel surface
+									const pinnedBackground = `
+                    bg-bg-elevated
+                    ${isSelected
+                      ? 'bg-linear-to-r from-accent-primary-muted to-accent-primary-muted'
+                      : striped && index % 2 === 1 ? 'bg-linear-to-r from-bg-surface/50 to-bg-surface/50' : ''
+                    }
+                    ${hoverable ? 'group-hover/row:bg-bg-hover group-hover/row:bg-none' : ''}
+                  `;
+									const selectionPin = getPinnedCell(0, pinnedBackground);
+									const expanderPin = getPinnedCell(isSelectable ? 1 : 0, pinnedBackground);
+									const rowId = `row:${rowKey}`;
+
+									const treeRow = treeRowByKey.get(rowKey);
+									const isTreeParent = Boolean(treeRow && treeRow.node.children.length > 0);
+									const isTreeExpanded = isTreeParent && (isTreeFiltered || treeExpandedKeySet.has(rowKey));
+									const treeLeafRows = treeRow && isTreeParent && aggregateParentRows
+										? getLeafRows(treeRow.node.children)
+										: null;
+
+									return (
+										<tr
+											key={rowKey}
+											data-row-id={rowId}
+											aria-selected={isSelectable ? isSelected : undefined}
+											aria-level={treeRow ? treeRow.depth + 1 : undefined}
+											aria-expanded={isTreeParent ? isTreeExpanded : undefined}
+											className={`
+                            border-b border-border-subtle
+                            last:border-b-0
+                            ${isSelected
+                              ? 'bg-accent-primary-muted'
+                              : striped && index % 2 === 1 ? 'bg-bg-surface/50' : 'bg-transparent'
+                            }
+                            ${hoverable ? 'group/row hover:bg-bg-hover transition-colors' : ''}
+                            ${isExpandable && expandOnRowClick ? 'cursor-pointer' : ''}
+                          `}
+											style={virtualized ? { height: getRowHeight(index) } : undefined}
+											onClick={isExpandable && expandOnRowClick ? (e) => handleRowClick(e, rowKey) : undefined}
+										>
+											{/* Selection Cell */}
+											{isSelectable && (
+												<td
+													{...getGridCellProps(rowId, 0)}
+													className={`${cellPadding} w-10 select-none ${gridCellFocusStyles} ${selectionPin.className}`}
+													style={selectionPin.style}
+													onMouseDown={trackShiftKey}
+													onKeyDown={trackShiftKey}
+												>
+													<Checkbox
+														size="sm"
+														tabIndex={-1}
+														aria-label={isSelected ? 'Deselect row' : 'Select row'}
+														checked={isSelected}
+														onChange={() => handleRowSelect(rowKey)}
+													/>
+												</td>
+											)}
+
+											{/* Expander Cell */}
+											{isExpandable && (
+												<td
+													{...getGridCellProps(rowId, isSelectable ? 1 : 0)}
+													className={`${cellPadding} w-10 ${gridCellFocusStyles} ${expanderPin.className}`}
+													style={expanderPin.style}
+												>
+													<RowToggleButton
+														tabIndex={-1}
+														expanded={isExpanded}
+														onClick={() => toggleExpanded(rowKey)}
+														onKeyDown={(e) => handleExpanderKeyDown(e, rowKey)}
+														aria-controls={isExpanded ? getDetailId(rowKey) : undefined}
+													/>
+												</td>
+											)}
+
+											{visibleColumns.map((column, columnIndex) => {
+												const pin = getPinnedCell(leadingColumnCount + columnIndex, pinnedBackground);
+												// Aggregated parent cells show a rollup, so they are not editable
+												const isAggregated = Boolean(treeLeafRows && column.aggregate);
+												const isEditable = !isAggregated && isCellEditable(column, row);
+												const isEditing = editingCell?.rowKey === rowKey && editingCell.columnId === column.id;
+												const isInlineToggle = isEditable && column.editor?.type === 'toggle';
+												const toggleErrorText = toggleError?.rowKey === rowKey && toggleError.columnId === column.id
+													? toggleError.error
+													: undefined;
+												const cellError = pasteErrorByCell.get(`${rowKey}:${column.id}`) ?? toggleErrorText;
+												const cellFormat = isAggregated || isEditing
+													? null
+													: getCellFormat(column, row, formatDomains[column.id] ?? null);
+
+												const content = isAggregated && treeLeafRows ? (
+													<span className="tabular-nums font-medium">
+														{formatAggregate(column, computeAggregate(column, treeLeafRows))}
+													</span>
+												) : isInlineToggle && column.editor ? (
+													<Toggle
+														size="sm"
+														tabIndex={-1}
+														aria-label={`Toggle ${getColumnLabel(column)}`}
+														checked={Boolean(column.editor.getValue(row))}
+														onChange={(e) => commitToggle(row, rowKey, column, e.target.checked)}
+														aria-invalid={Boolean(toggleErrorText)}
+														errorText={toggleErrorText}
+													/>
+												) : cellFormat?.bar ? (
+													<div className="relative">
+														<span
+															aria-hidden="true"
+															className="absolute inset-y-0 rounded-sm"
+															style={{
+																left: `${cellFormat.bar.left}%`,
+																width: `${cellFormat.bar.width}%`,
+																backgroundColor: cellFormat.bar.color,
+															}}
+														/>
+														<span className="relative">{column.accessor(row)}</span>
+													</div>
+												) : (
+													column.accessor(row)
+												);
+
+												return (
+													<td
+														key={column.id}
+														data-cell={`${rowKey}:${column.id}`}
+														{...getGridCellProps(rowId, leadingColumnCount + columnIndex)}
+														aria-selected={highlightedRange ? isInRange(rowId, leadingColumnCount + columnIndex) : undefined}
+														aria-invalid={cellError ? true : undefined}
+														title={cellError}
+														onMouseDown={cellSelection ? (e) => handleRangeMouseDown(e, rowId, column.id) : undefined}
+														onMouseEnter={cellSelection ? (e) => handleRangeMouseEnter(e, rowId, column.id) : undefined}
+														onDoubleClick={isEditable && !isEditing ? () => startEdit(row, rowKey, column) : undefined}
+														onKeyDown={isEditable && !isEditing ? (e) => handleCellKeyDown(e, row, rowKey, column) : undefined}
+														className={`
+                                  ${isEditing ? (compact ? 'px-1.5 py-1' : 'px-2 py-1.5') : cellPadding}
+                                  text-sm text-text-primary
+                                  ${alignStyles[column.align || 'left']}
+                                  ${isEditable && !isInlineToggle ? 'cursor-text' : ''}
+                                  ${gridCellFocusStyles}
+                                  ${column.cellClassName || ''}
+                                  ${pin.className}
+                                  ${getRangeCellClass(rowId, leadingColumnCount + columnIndex, pin.style !== undefined)}
+                                  ${cellError ? 'ring-2 ring-inset ring-error' : ''}
+                                `}
+														style={cellFormat?.style ? { ...pin.style, ...cellFormat.style } : pin.style}
+													>
+														{isEditing && column.editor ? (
+															<CellEditor
+																editor={column.editor}
+																value={editingCell.value}
+																onChange={(value) => updateEditingCell({ ...editingCell, value, error: undefined })}
+																onCommit={(value) => commitEdit(row, column, value)}
+																onCancel={cancelEdit}
+																errorText={editingCell.error}
+																label={`Edit ${getColumnLabel(column)}`}
+															/>
+														) : treeRow && columnIndex === 0 ? (
+															<div
+																className="flex items-center gap-1"
+																style={{ paddingLeft: treeRow.depth * TREE_INDENT }}
+															>
+																{isTreeParent ? (
+																	<RowToggleButton
+																		kind="tree"
+																		tabIndex={-1}
+																		expanded={isTreeExpanded}
+																		onClick={() => toggleTreeRow(rowKey)}
+																		disabled={isTreeFiltered}
+																	/>
+																) : (
+																	<span className="flex-shrink-0 w-5" aria-hidden="true" />
+																)}
+																<span className="min-w-0">{content}</span>
+															</div>
+														) : (
+															content
+														)}
+													</td>
+												);
+											})}
+										</tr>
+									);
+								})}
+
+								{/* Spacer for rows below the viewport */}
+								{paddingBottom > 0 && (
+									<tr aria-hidden="true" style={{ height: paddingBottom }} />
+								)}
+							</>
+						)}
+					</tbody>
+
+					{/* Footer Totals - computed over all filtered rows, not just the current page */}
+					{hasAggregates && (
+						<tfoot className="bg-bg-surface sticky bottom-0 z-10">
+							<tr>
+								{leadingColumnCount > 0 && (
+									<td
+										colSpan={leadingColumnCount}
+										className={`border-t border-border-default ${leadingSurfacePin.className}`}
+										style={leadingSurfacePin.style}
+									/>
+								)}
+
+								{visibleColumns.map((column, columnIndex) => {
+									const pin = getPinnedCell(leadingColumnCount + columnIndex, 'bg-bg-surface');
+
+									return (
 										<td
 											key={column.id}
 											className={`
                         ${cellPadding}
-                        text-sm text-text-primary
+                        text-sm font-semibold text-text-primary tabular-nums
+                        border-t border-border-default
                         ${alignStyles[column.align || 'left']}
                         ${column.cellClassName || ''}
+                        ${pin.className}
                       `}
+											style={pin.style}
 										>
-											{column.accessor(row)}
+											{column.aggregate
+												? formatAggregate(column, aggregates[columnIndex])
+												: columnIndex === 0 ? footerLabel : null}
 										</td>
-									))}
-								</tr>
-							))
-						)}
-					</tbody>
+									);
+								})}
+							</tr>
+						</tfoot>
+					)}
 				</table>
+
+				{/* Loading Overlay - stale rows stay visible while the next request is pending */}
+				{loading && visibleItems.length > 0 && (
+					<div
+						role="status"
+						className="
+              col-start-1 row-start-1 z-20
+              flex items-start
+              bg-bg-elevated/60
+            "
+					>
+						{/* Sticky so the badge stays centered in view while the rows scroll */}
+						<span className="
+              sticky top-1/2 left-1/2
+              flex items-center gap-2
+              px-3 py-1.5
+              -translate-x-1/2 -translate-y-1/2
+              bg-bg-elevated
+              border border-border-subtle
+              rounded-md
+              shadow-md
+              text-xs text-text-secondary
+            ">
+							<Loader2 size={14} className="animate-spin text-accent-primary" />
+							Loading…
+						</span>
+					</div>
+				)}
 			</div>
+
+			{/* Pagination */}
+			{pagination && (
+				<TablePagination
+					page={currentPage}
+					pageSize={pageSize}
+					totalCount={rowTotal}
+					onPageChange={handlePageChange}
+					onPageSizeChange={handlePageSizeChange}
+					pageSizeOptions={pageSizeOptions}
+					compact={compact}
+				/>
+			)}
 		</div>
 	);
 }
+
+// forwardRef drops the row type parameter, so restore it on the exported component
+export const DataTable = forwardRef(DataTableComponent) as <T>(
+	props: DataTableProps<T> & RefAttributes<DataTableHandle>
+) => ReactElement | null;
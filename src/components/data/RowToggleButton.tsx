@@ -0,0 +1,62 @@
+// ─────────────────────────────────────────────────────────────
+// Component: RowToggleButton
+// Purpose: Chevron button that shows or hides a row's details or tree children.
+// Layer: Data Display
+// Used by: DataTable rows, TableCardList cards.
+// Dependencies: lucide-react icons.
+// ─────────────────────────────────────────────────────────────
+
+import type { ButtonHTMLAttributes } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+// ─── Types ───
+export type RowToggleKind = 'detail' | 'tree';
+
+export interface RowToggleButtonProps extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'type' | 'children'> {
+	/** Whether the details or children are showing */
+	expanded: boolean;
+	/** Detail-row expander, or the smaller toggle beside a tree row's first cell */
+	kind?: RowToggleKind;
+}
+
+// ─── Kind Styles ───
+const kindStyles: Record<RowToggleKind, { button: string; iconSize: number; label: string }> = {
+	detail: { button: 'w-6 h-6', iconSize: 16, label: 'row details' },
+	tree: { button: 'flex-shrink-0 w-5 h-5 disabled:opacity-50 disabled:hover:bg-transparent', iconSize: 14, label: 'row' },
+};
+
+// ─── Component ───
+export function RowToggleButton({
+	expanded,
+	kind = 'detail',
+	className = '',
+	...props
+}: RowToggleButtonProps) {
+	const styles = kindStyles[kind];
+
+	return (
+		<button
+			type="button"
+			aria-expanded={expanded}
+			aria-label={`${expanded ? 'Collapse' : 'Expand'} ${styles.label}`}
+			className={`
+        flex items-center justify-center
+        rounded
+        text-text-muted
+        hover:bg-bg-hover hover:text-text-primary
+        focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus
+        ${styles.button}
+        ${className}
+      `}
+			{...props}
+		>
+			<ChevronRight
+				size={styles.iconSize}
+				className={`
+          transition-transform duration-[var(--transition-normal)]
+          ${expanded ? 'rotate-90' : 'rotate-0'}
+        `}
+			/>
+		</button>
+	);
+}
@@ -0,0 +1,294 @@
+// ─────────────────────────────────────────────────────────────
+// Component: TableCardList
+// Purpose: Stacked card per row for DataTable's narrow-screen layout.
+// Layer: Data Display
+// Used by: DataTable below its card breakpoint.
+// Dependencies: Card, Checkbox, RowToggleButton, conditionalFormat, tableUtils.
+// ─────────────────────────────────────────────────────────────
+
+import type { KeyboardEvent, MouseEvent, ReactNode } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Card } from '../ui/Card';
+import { Checkbox } from '../ui/Checkbox';
+import { RowToggleButton } from './RowToggleButton';
+import { getCellFormat, type FormatDomain } from './conditionalFormat';
+import { computeAggregate, formatAggregate, getLeafRows, SKELETON_WIDTHS, TREE_INDENT, type TreeRow } from './tableUtils';
+import type { ColumnDef, DisplayItem, RowKey } from './DataTable';
+
+// ─── Types ───
+export interface TableCardListProps<T> {
+	/** Rows, group headers and details in display order */
+	items: DisplayItem<T>[];
+	/** Visible columns in display order */
+	columns: ColumnDef<T>[];
+	/** Column shown as each card's title */
+	titleColumn?: ColumnDef<T>;
+	/** Skeleton cards while there are no rows yet, dimmed cards while a request is pending */
+	loading: boolean;
+	/** Number of skeleton cards */
+	skeletonCount: number;
+	/** Message when there are no rows */
+	emptyMessage: ReactNode;
+	/** Group header label */
+	formatGroupLabel?: (key: string, rows: T[]) => ReactNode;
+	/** Collapse or expand a group */
+	onToggleGroup: (key: string) => void;
+	/** Show a selection checkbox on each card */
+	selectable: boolean;
+	selectedKeys: Set<RowKey>;
+	onSelectRow: (key: RowKey) => void;
+	/** Records Shift before a checkbox changes, so Shift+click selects a range like the grid */
+	onSelectModifiers: (event: MouseEvent | KeyboardEvent) => void;
+	/** Show an expander for each card's details */
+	expandable: boolean;
+	expandedKeys: Set<RowKey>;
+	onToggleExpanded: (key: RowKey) => void;
+	renderExpandedRow?: (row: T) => ReactNode;
+	/** Id of a row's details, shared with the grid's detail rows */
+	getDetailId: (key: RowKey) => string;
+	/** Tree position by row key - empty without tree data */
+	treeRows: Map<RowKey, TreeRow<T>>;
+	treeExpandedKeys: Set<RowKey>;
+	/** Filters force every tree row open */
+	treeFiltered: boolean;
+	onToggleTreeRow: (key: RowKey) => void;
+	/** Tree parents show rollups of their leaf rows */
+	aggregateParentRows: boolean;
+	/** Conditional format domains by column id */
+	formatDomains: Record<string, FormatDomain | null>;
+	/** Totals per column, aligned with columns - empty when no column aggregates */
+	aggregates: (number | null)[];
+	/** Title of the totals card */
+	footerLabel: ReactNode;
+	/** Compact mode */
+	compact?: boolean;
+	/** Scroll the cards within this height */
+	maxHeight?: string;
+}
+
+// ─── Component ───
+export function TableCardList<T>({
+	items,
+	columns,
+	titleColumn,
+	loading,
+	skeletonCount,
+	emptyMessage,
+	formatGroupLabel,
+	onToggleGroup,
+	selectable,
+	selectedKeys,
+	onSelectRow,
+	onSelectModifiers,
+	expandable,
+	expandedKeys,
+	onToggleExpanded,
+	renderExpandedRow,
+	getDetailId,
+	treeRows,
+	treeExpandedKeys,
+	treeFiltered,
+	onToggleTreeRow,
+	aggregateParentRows,
+	formatDomains,
+	aggregates,
+	footerLabel,
+	compact = false,
+	maxHeight,
+}: TableCardListProps<T>) {
+	return (
+		<div
+			aria-busy={loading || undefined}
+			className={`
+        flex flex-col gap-2
+        ${compact ? 'p-2' : 'p-3'}
+        ${maxHeight ? 'overflow-auto' : ''}
+        ${loading && items.length > 0 ? 'opacity-60 pointer-events-none' : ''}
+        transition-opacity duration-[var(--transition-normal)]
+      `}
+			style={maxHeight ? { maxHeight } : undefined}
+		>
+			{items.length === 0 && loading ? (
+				Array.from({ length: skeletonCount }, (_, skeletonIndex) => (
+					<Card key={`skeleton:${skeletonIndex}`} padding="sm" aria-hidden="true" className="flex flex-col gap-2">
+						<div className="h-4 w-1/2 rounded bg-bg-hover animate-pulse" />
+						{SKELETON_WIDTHS.map((_, barIndex) => (
+							<div
+								key={barIndex}
+								className="h-3 rounded bg-bg-hover animate-pulse"
+								style={{ width: `${SKELETON_WIDTHS[(skeletonIndex + barIndex) % SKELETON_WIDTHS.length]}%` }}
+							/>
+						))}
+					</Card>
+				))
+			) : items.length === 0 ? (
+				<p className="py-6 text-center text-sm text-text-muted">
+					{emptyMessage}
+				</p>
+			) : (
+				items.map(item => {
+					// Group Header
+					if (item.type === 'group') {
+						return (
+							<button
+								key={`group:${item.key}`}
+								type="button"
+								onClick={() => onToggleGroup(item.key)}
+								aria-expanded={item.expanded}
+								className="
+                  flex items-center gap-2
+                  px-1 pt-2
+                  text-sm font-semibold text-text-primary text-left
+                  rounded
+                  focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus
+                "
+							>
+								<ChevronDown
+									size={16}
+									className={`
+                    text-text-muted
+                    transition-transform duration-[var(--transition-normal)]
+                    ${item.expanded ? 'rotate-0' : '-rotate-90'}
+                  `}
+								/>
+								<span>
+									{formatGroupLabel ? formatGroupLabel(item.key, item.rows) : item.key || '—'}
+								</span>
+								<span className="text-xs font-normal text-text-muted">
+									({item.rows.length.toLocaleString()})
+								</span>
+							</button>
+						);
+					}
+
+					// Details render inside their row's card
+					if (item.type === 'detail') return null;
+
+					const { row, key: rowKey } = item;
+					const isSelected = selectable && selectedKeys.has(rowKey);
+					const isExpanded = expandable && expandedKeys.has(rowKey);
+					const treeRow = treeRows.get(rowKey);
+					const isTreeParent = Boolean(treeRow && treeRow.node.children.length > 0);
+					const isTreeExpanded = isTreeParent && (treeFiltered || treeExpandedKeys.has(rowKey));
+					const treeLeafRows = treeRow && isTreeParent && aggregateParentRows
+						? getLeafRows(treeRow.node.children)
+						: null;
+
+					return (
+						<Card
+							key={rowKey}
+							padding="sm"
+							className={isSelected ? 'ring-2 ring-accent-primary' : ''}
+							style={treeRow ? { marginLeft: treeRow.depth * TREE_INDENT } : undefined}
+						>
+							{/* Card Header */}
+							<div className="flex items-center gap-2">
+								{selectable && (
+									<div className="flex" onMouseDown={onSelectModifiers} onKeyDown={onSelectModifiers}>
+										<Checkbox
+											size="sm"
+											aria-label={isSelected ? 'Deselect row' : 'Select row'}
+											checked={isSelected}
+											onChange={() => onSelectRow(rowKey)}
+										/>
+									</div>
+								)}
+
+								{isTreeParent && (
+									<RowToggleButton
+										kind="tree"
+										expanded={isTreeExpanded}
+										onClick={() => onToggleTreeRow(rowKey)}
+										disabled={treeFiltered}
+									/>
+								)}
+
+								<div className="flex-1 min-w-0 text-sm font-semibold text-text-primary">
+									{titleColumn && titleColumn.accessor(row)}
+								</div>
+
+								{expandable && (
+									<RowToggleButton
+										expanded={isExpanded}
+										onClick={() => onToggleExpanded(rowKey)}
+										aria-controls={isExpanded ? getDetailId(rowKey) : undefined}
+									/>
+								)}
+							</div>
+
+							{/* Header/Value Pairs */}
+							<dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+								{columns.filter(column => column !== titleColumn).map(column => {
+									const isAggregated = Boolean(treeLeafRows && column.aggregate);
+									const cellFormat = isAggregated
+										? null
+										: getCellFormat(column, row, formatDomains[column.id] ?? null);
+
+									return (
+										<div key={column.id} className="contents">
+											<dt className="text-text-muted">{column.header}</dt>
+											<dd
+												className={`
+                          relative
+                          px-1 -mx-1
+                          rounded
+                          text-right text-text-primary
+                          ${column.cellClassName || ''}
+                        `}
+												style={cellFormat?.style}
+											>
+												{cellFormat?.bar && (
+													<span
+														aria-hidden="true"
+														className="absolute inset-y-0 rounded-sm"
+														style={{
+															left: `${cellFormat.bar.left}%`,
+															width: `${cellFormat.bar.width}%`,
+															backgroundColor: cellFormat.bar.color,
+														}}
+													/>
+												)}
+												<span className="relative">
+													{isAggregated && treeLeafRows
+														? formatAggregate(column, computeAggregate(column, treeLeafRows))
+														: column.accessor(row)}
+												</span>
+											</dd>
+										</div>
+									);
+								})}
+							</dl>
+
+							{/* Expanded Details */}
+							{isExpanded && (
+								<div
+									id={getDetailId(rowKey)}
+									className="mt-3 pt-3 border-t border-border-subtle text-sm text-text-primary"
+								>
+									{renderExpandedRow?.(row)}
+								</div>
+							)}
+						</Card>
+					);
+				})
+			)}
+
+			{/* Totals Card - computed over all filtered rows, not just the current page */}
+			{aggregates.length > 0 && (
+				<Card padding="sm">
+					<div className="text-sm font-semibold text-text-primary">{footerLabel}</div>
+					<dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+						{columns.map((column, columnIndex) => column.aggregate && (
+							<div key={column.id} className="contents">
+								<dt className="text-text-muted">{column.header}</dt>
+								<dd className="text-right font-semibold text-text-primary tabular-nums">
+									{formatAggregate(column, aggregates[columnIndex])}
+								</dd>
+							</div>
+						))}
+					</dl>
+				</Card>
+			)}
+		</div>
+	);
+}
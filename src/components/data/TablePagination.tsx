@@ -0,0 +1,134 @@
+// ─────────────────────────────────────────────────────────────
+// Component: TablePagination
+// Purpose: Page navigation, page-size selector and row range summary.
+// Layer: Data Display
+// Used by: DataTable footer, any paged list of records.
+// Dependencies: IconButton, Select, lucide-react icons.
+// ─────────────────────────────────────────────────────────────
+
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { IconButton } from '../ui/IconButton';
+import { Select } from '../ui/Select';
+import { getPageCount } from './tableUtils';
+
+// ─── Types ───
+export interface TablePaginationProps {
+	/** Current page (1-based) */
+	page: number;
+	/** Rows per page */
+	pageSize: number;
+	/** Total number of rows across all pages */
+	totalCount: number;
+	/** Callback when the page changes */
+	onPageChange: (page: number) => void;
+	/** Callback when the page size changes */
+	onPageSizeChange?: (pageSize: number) => void;
+	/** Selectable page sizes - selector is hidden when empty */
+	pageSizeOptions?: number[];
+	/** Compact mode */
+	compact?: boolean;
+	/** Additional CSS classes */
+	className?: string;
+}
+
+// ─── Component ───
+export function TablePagination({
+	page,
+	pageSize,
+	totalCount,
+	onPageChange,
+	onPageSizeChange,
+	pageSizeOptions = [10, 25, 50, 100],
+	compact = false,
+	className = '',
+}: TablePaginationProps) {
+	const pageCount = getPageCount(totalCount, pageSize);
+	const rangeStart = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+	const rangeEnd = Math.min(page * pageSize, totalCount);
+	const isFirstPage = page <= 1;
+	const isLastPage = page >= pageCount;
+
+	// Always offer the active size, even if the consumer passes a custom one
+	const sizeOptions = pageSizeOptions.includes(pageSize)
+		? pageSizeOptions
+		: [...pageSizeOptions, pageSize].sort((a, b) => a - b);
+
+	return (
+		<div
+			className={`
+        flex flex-wrap items-center justify-between gap-3
+        ${compact ? 'px-3 py-2' : 'px-4 py-3'}
+        border-t border-border-subtle
+        bg-bg-surface
+        text-xs text-text-secondary
+        ${className}
+      `}
+		>
+			{/* Range Summary */}
+			<span aria-live="polite">
+				Showing{' '}
+				<span className="font-medium text-text-primary">
+					{rangeStart.toLocaleString()}–{rangeEnd.toLocaleString()}
+				</span>
+				{' '}of{' '}
+				<span className="font-medium text-text-primary">
+					{totalCount.toLocaleString()}
+				</span>
+			</span>
+
+			<div className="flex items-center gap-3">
+				{/* Page Size Selector */}
+				{onPageSizeChange && pageSizeOptions.length > 0 && (
+					<div className="flex items-center gap-2">
+						<span>Rows per page</span>
+						<Select
+							size="sm"
+							aria-label="Rows per page"
+							value={String(pageSize)}
+							onChange={(e) => onPageSizeChange(Number(e.target.value))}
+							options={sizeOptions.map(size => ({
+								value: String(size),
+								label: String(size),
+							}))}
+						/>
+					</div>
+				)}
+
+				{/* Page Navigation */}
+				<nav aria-label="Pagination" className="flex items-center gap-1">
+					<IconButton
+						icon={<ChevronsLeft size={14} />}
+						label="First page"
+						size="sm"
+						disabled={isFirstPage}
+						onClick={() => onPageChange(1)}
+					/>
+					<IconButton
+						icon={<ChevronLeft size={14} />}
+						label="Previous page"
+						size="sm"
+						disabled={isFirstPage}
+						onClick={() => onPageChange(page - 1)}
+					/>
+					<span className="px-2 whitespace-nowrap">
+						Page {page.toLocaleString()} of {pageCount.toLocaleString()}
+					</span>
+					<IconButton
+						icon={<ChevronRight size={14} />}
+						label="Next page"
+						size="sm"
+						disabled={isLastPage}
+						onClick={() => onPageChange(page + 1)}
+					/>
+					<IconButton
+						icon={<ChevronsRight size={14} />}
+						label="Last page"
+						size="sm"
+						disabled={isLastPage}
+						onClick={() => onPageChange(pageCount)}
+					/>
+				</nav>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,157 @@
+// ─────────────────────────────────────────────────────────────
+// Component: ViewsMenu
+// Purpose: Toolbar menu to save, switch, update and delete DataTable views.
+// Layer: Data Display
+// Used by: DataTable toolbar.
+// Dependencies: Button, IconButton, TextInput, useAnchoredPopover, lucide-react icons.
+// ─────────────────────────────────────────────────────────────
+
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { Bookmark, Check, Trash2 } from 'lucide-react';
+import { useAnchoredPopover } from '../../hooks/useAnchoredPopover';
+import { Button } from '../ui/Button';
+import { IconButton } from '../ui/IconButton';
+import { TextInput } from '../ui/TextInput';
+import type { DataTableView } from './DataTable';
+
+// ─── Types ───
+export interface ViewsMenuProps {
+	/** Saved views */
+	views: DataTableView[];
+	/** Id of the applied view, null when none */
+	activeViewId: string | null;
+	/** Whether the table has changed since the active view was applied */
+	isModified: boolean;
+	/** Apply a view */
+	onSelect: (viewId: string) => void;
+	/** Save the current table state under a name (replaces a view with the same name) */
+	onSave: (name: string) => void;
+	/** Overwrite the active view with the current table state */
+	onUpdate: () => void;
+	/** Delete a view */
+	onDelete: (viewId: string) => void;
+}
+
+// ─── Component ───
+export function ViewsMenu({
+	views,
+	activeViewId,
+	isModified,
+	onSelect,
+	onSave,
+	onUpdate,
+	onDelete,
+}: ViewsMenuProps) {
+	const { anchorRef, popoverRef, position, toggle, close } = useAnchoredPopover({ align: 'end' });
+	const [name, setName] = useState('');
+
+	const activeView = views.find(view => view.id === activeViewId);
+
+	const handleSubmit = (event: FormEvent) => {
+		event.preventDefault();
+		const trimmed = name.trim();
+		if (!trimmed) return;
+		onSave(trimmed);
+		setName('');
+	};
+
+	return (
+		<>
+			<Button
+				ref={anchorRef}
+				variant="secondary"
+				size="sm"
+				leftIcon={<Bookmark size={14} />}
+				aria-haspopup="true"
+				aria-expanded={position !== null}
+				onClick={toggle}
+			>
+				{activeView ? `${activeView.name}${isModified ? ' *' : ''}` : 'Views'}
+			</Button>
+
+			{position && (
+				<div
+					ref={popoverRef}
+					role="group"
+					aria-label="Saved views"
+					className="
+            fixed z-50
+            w-64 max-h-96 overflow-auto
+            p-2
+            bg-bg-elevated
+            border border-border-default
+            rounded-md
+            shadow-lg
+            flex flex-col gap-1
+          "
+					style={position}
+				>
+					{views.length === 0 ? (
+						<p className="px-2 py-1 text-xs text-text-muted">
+							No saved views yet
+						</p>
+					) : (
+						views.map(view => (
+							<div key={view.id} className="flex items-center gap-1">
+								<button
+									type="button"
+									aria-pressed={view.id === activeViewId}
+									onClick={() => {
+										onSelect(view.id);
+										close();
+									}}
+									className="
+                    flex-1 min-w-0
+                    flex items-center gap-2
+                    px-2 py-1.5
+                    rounded
+                    text-sm text-left text-text-primary
+                    hover:bg-bg-hover
+                    focus:outline-none focus-visible:ring-2 focus-visible:ring-border-focus
+                  "
+								>
+									<Check
+										size={14}
+										className={`flex-shrink-0 ${view.id === activeViewId ? 'text-accent-primary' : 'invisible'}`}
+									/>
+									<span className="truncate">{view.name}</span>
+								</button>
+								<IconButton
+									icon={<Trash2 size={12} />}
+									label={`Delete view ${view.name}`}
+									variant="ghost"
+									size="sm"
+									onClick={() => onDelete(view.id)}
+								/>
+							</div>
+						))
+					)}
+
+					{activeView && isModified && (
+						<Button variant="ghost" size="sm" onClick={onUpdate}>
+							Update "{activeView.name}"
+						</Button>
+					)}
+
+					<form
+						onSubmit={handleSubmit}
+						className="mt-1 pt-2 border-t border-border-subtle flex items-center gap-2"
+					>
+						<TextInput
+							size="sm"
+							fullWidth
+							aria-label="View name"
+							placeholder="View name"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+						/>
+						<Button type="submit" size="sm" disabled={!name.trim()}>
+							Save
+						</Button>
+					</form>
+				</div>
+			)}
+		</>
+	);
+}
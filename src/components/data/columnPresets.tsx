@@ -0,0 +1,258 @@
+// ─────────────────────────────────────────────────────────────
+// Utilities: columnPresets
+// Purpose: Column factories for currency, percent, number, date, boolean and delta values.
+// Layer: Data Display
+// Used by: DataTable column definitions in financial summaries and scenario comparisons.
+// Dependencies: lucide-react icons.
+// ─────────────────────────────────────────────────────────────
+
+import type { ReactNode } from 'react';
+import { ArrowDown, ArrowUp, Minus } from 'lucide-react';
+import type { ColumnDef } from './DataTable';
+
+// ─── Types ───
+/** Options shared by every preset - any other ColumnDef field overrides the preset's defaults */
+export type ColumnPresetOptions<T, V> = Omit<ColumnDef<T>, 'accessor'> & {
+	/** Raw cell value - formatted for display and used for sorting, filtering, totals and exports */
+	value: (row: T) => V | null | undefined;
+	/** BCP 47 locale for formatting - defaults to the browser locale */
+	locale?: string;
+	/** Text shown for missing values */
+	emptyText?: string;
+};
+
+export interface NumberPresetOptions {
+	/** Fixed number of decimal places */
+	fractionDigits?: number;
+	/** Extra Intl.NumberFormat options, applied last */
+	formatOptions?: Intl.NumberFormatOptions;
+}
+
+export interface CurrencyColumnOptions<T> extends ColumnPresetOptions<T, number>, NumberPresetOptions {
+	/** ISO 4217 currency code (default: GBP) */
+	currency?: string;
+}
+
+export interface PercentColumnOptions<T> extends ColumnPresetOptions<T, number>, NumberPresetOptions {
+	/** Whether values are fractions (0.05) or already percentages (5) - default: fraction */
+	scale?: 'fraction' | 'percent';
+}
+
+export type NumberColumnOptions<T> = ColumnPresetOptions<T, number> & NumberPresetOptions;
+
+export interface DateColumnOptions<T> extends ColumnPresetOptions<T, Date | string | number> {
+	/** Intl.DateTimeFormat options (default: { dateStyle: 'medium' }) */
+	formatOptions?: Intl.DateTimeFormatOptions;
+}
+
+// Labels come from the caller, so there is nothing to localize
+export interface BooleanColumnOptions<T> extends Omit<ColumnPresetOptions<T, boolean>, 'locale'> {
+	/** Label for true values (default: Yes) */
+	trueLabel?: ReactNode;
+	/** Label for false values (default: No) */
+	falseLabel?: ReactNode;
+}
+
+export interface DeltaColumnOptions<T> extends ColumnPresetOptions<T, number>, NumberPresetOptions {
+	/** How the change is formatted (default: number) */
+	format?: 'number' | 'currency' | 'percent';
+	/** ISO 4217 currency code for currency deltas (default: GBP) */
+	currency?: string;
+	/** Whether percent deltas are fractions or already percentages - default: fraction */
+	scale?: 'fraction' | 'percent';
+	/** Treat decreases as good, e.g. for costs and tax */
+	invert?: boolean;
+}
+
+// ─── Shared Helpers ───
+const EMPTY_TEXT = '—';
+
+/** Missing values sort before every real value */
+function compareNullable<V>(a: V | null | undefined, b: V | null | undefined, compare: (a: V, b: V) => number): number {
+	const aMissing = a === null || a === undefined;
+	const bMissing = b === null || b === undefined;
+	if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? -1 : 1;
+	return compare(a, b);
+}
+
+function getFractionOptions(fractionDigits: number | undefined): Intl.NumberFormatOptions {
+	return fractionDigits === undefined
+		? {}
+		: { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits };
+}
+
+function toDate(value: Date | string | number): Date | null {
+	const date = value instanceof Date ? value : new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+type PresetDefaults<T> = Omit<Partial<ColumnDef<T>>, 'id' | 'header' | 'accessor' | 'filter'>;
+
+/** Builds the column shared by every preset, letting caller fields win over the preset defaults */
+function createPresetColumn<T, V>(
+	{ value, emptyText = EMPTY_TEXT, filter, ...column }: Omit<ColumnPresetOptions<T, V>, 'locale'>,
+	format: (value: V) => ReactNode,
+	defaults: PresetDefaults<T>,
+	filterValue: (row: T) => string | number | Date | null | undefined
+): ColumnDef<T> {
+	return {
+		accessor: (row) => {
+			const raw = value(row);
+			return raw === null || raw === undefined ? emptyText : format(raw);
+		},
+		sortable: true,
+		...defaults,
+		...column,
+		// Filters match the raw value unless the caller supplies their own
+		filter: filter && { getValue: filterValue, ...filter },
+	};
+}
+
+/** Defaults for presets backed by a number */
+function numericDefaults<T>(
+	value: (row: T) => number | null | undefined,
+	formatter: Intl.NumberFormat
+): PresetDefaults<T> {
+	return {
+		align: 'right',
+		cellClassName: 'tabular-nums whitespace-nowrap',
+		sortFn: (a, b) => compareNullable(value(a), value(b), (x, y) => x - y),
+		exportValue: value,
+		aggregateValue: value,
+		formatAggregate: (total) => formatter.format(total),
+	};
+}
+
+// ─── Number ───
+export function numberColumn<T>({ locale, fractionDigits, formatOptions, ...options }: NumberColumnOptions<T>): ColumnDef<T> {
+	const formatter = new Intl.NumberFormat(locale, { ...getFractionOptions(fractionDigits), ...formatOptions });
+
+	return createPresetColumn(options, (value) => formatter.format(value), numericDefaults(options.value, formatter), options.value);
+}
+
+// ─── Currency ───
+export function currencyColumn<T>({
+	locale,
+	currency = 'GBP',
+	fractionDigits,
+	formatOptions,
+	...options
+}: CurrencyColumnOptions<T>): ColumnDef<T> {
+	const formatter = new Intl.NumberFormat(locale, {
+		style: 'currency',
+		currency,
+		...getFractionOptions(fractionDigits),
+		...formatOptions,
+	});
+
+	return createPresetColumn(options, (value) => formatter.format(value), numericDefaults(options.value, formatter), options.value);
+}
+
+// ─── Percent ───
+export function percentColumn<T>({
+	locale,
+	scale = 'fraction',
+	fractionDigits = 1,
+	formatOptions,
+	...options
+}: PercentColumnOptions<T>): ColumnDef<T> {
+	const formatter = new Intl.NumberFormat(locale, {
+		style: 'percent',
+		...getFractionOptions(fractionDigits),
+		...formatOptions,
+	});
+	// Intl expects fractions
+	const divisor = scale === 'percent' ? 100 : 1;
+
+	return createPresetColumn(options, (value) => formatter.format(value / divisor), {
+		...numericDefaults(options.value, formatter),
+		formatAggregate: (total) => formatter.format(total / divisor),
+	}, options.value);
+}
+
+// ─── Date ───
+export function dateColumn<T>({
+	locale,
+	formatOptions = { dateStyle: 'medium' },
+	...options
+}: DateColumnOptions<T>): ColumnDef<T> {
+	const formatter = new Intl.DateTimeFormat(locale, formatOptions);
+	const getDate = (row: T) => {
+		const raw = options.value(row);
+		return raw === null || raw === undefined ? null : toDate(raw);
+	};
+
+	return createPresetColumn(
+		{ ...options, value: getDate },
+		(date) => formatter.format(date),
+		{
+			cellClassName: 'tabular-nums whitespace-nowrap',
+			sortFn: (a, b) => compareNullable(getDate(a), getDate(b), (x, y) => x.getTime() - y.getTime()),
+			exportValue: getDate,
+		},
+		getDate
+	);
+}
+
+// ─── Boolean ───
+export function booleanColumn<T>({
+	trueLabel = 'Yes',
+	falseLabel = 'No',
+	...options
+}: BooleanColumnOptions<T>): ColumnDef<T> {
+	// Text filters and enum options match the label when it is plain text
+	const getFilterValue = (row: T) => {
+		const raw = options.value(row);
+		if (raw === null || raw === undefined) return undefined;
+		const label = raw ? trueLabel : falseLabel;
+		return typeof label === 'string' ? label : String(raw);
+	};
+
+	return createPresetColumn(options, (value) => value ? trueLabel : falseLabel, {
+		align: 'center',
+		sortFn: (a, b) => compareNullable(options.value(a), options.value(b), (x, y) => Number(x) - Number(y)),
+		exportValue: options.value,
+	}, getFilterValue);
+}
+
+// ─── Delta (signed change with a direction arrow) ───
+export function deltaColumn<T>({
+	locale,
+	format = 'number',
+	currency = 'GBP',
+	scale = 'fraction',
+	invert = false,
+	fractionDigits = format === 'percent' ? 1 : undefined,
+	formatOptions,
+	...options
+}: DeltaColumnOptions<T>): ColumnDef<T> {
+	const formatter = new Intl.NumberFormat(locale, {
+		...(format === 'currency' ? { style: 'currency', currency } : format === 'percent' ? { style: 'percent' } : {}),
+		signDisplay: 'exceptZero',
+		...getFractionOptions(fractionDigits),
+		...formatOptions,
+	});
+	const divisor = format === 'percent' && scale === 'percent' ? 100 : 1;
+	const formatDelta = (value: number) => formatter.format(value / divisor);
+
+	return createPresetColumn(
+		options,
+		(value) => {
+			const Icon = value > 0 ? ArrowUp : value < 0 ? ArrowDown : Minus;
+			const isGood = invert ? value < 0 : value > 0;
+			const tone = value === 0 ? 'text-text-muted' : isGood ? 'text-success' : 'text-error';
+
+			return (
+				<span className={`inline-flex items-center gap-1 ${tone}`}>
+					<Icon size={14} aria-hidden="true" className="flex-shrink-0" />
+					{formatDelta(value)}
+				</span>
+			);
+		},
+		{
+			...numericDefaults(options.value, formatter),
+			formatAggregate: formatDelta,
+		},
+		options.value
+	);
+}
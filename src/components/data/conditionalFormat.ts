@@ -0,0 +1,151 @@
+// ─────────────────────────────────────────────────────────────
+// Utilities: conditionalFormat
+// Purpose: Resolves DataTable conditional formatting rules (thresholds, color scales, data bars) to cell styles.
+// Layer: Data Display
+// Used by: DataTable body cells.
+// ─────────────────────────────────────────────────────────────
+
+import type { CSSProperties } from 'react';
+import type { ColorScaleRule, ColumnDef, DataBarRule, FormatTone, ThresholdRule } from './DataTable';
+import { getNumericValue } from './tableUtils';
+
+// ─── Types ───
+/** Smallest and largest numeric value in a column */
+export interface FormatDomain {
+	min: number;
+	max: number;
+}
+
+export interface DataBar {
+	/** Bar start as a percentage of the cell width */
+	left: number;
+	/** Bar width as a percentage of the cell width */
+	width: number;
+	color: string;
+}
+
+export interface CellFormat {
+	/** Text color and background tint for the cell */
+	style?: CSSProperties;
+	/** Inline bar drawn behind the cell content */
+	bar?: DataBar;
+}
+
+// ─── Theme Colors ───
+// Semantic tokens are redefined per data-theme, so mixes stay legible in dark and light mode
+const toneColors: Record<FormatTone, string> = {
+	success: 'var(--color-success)',
+	warning: 'var(--color-warning)',
+	error: 'var(--color-error)',
+	accent: 'var(--accent-primary)',
+};
+
+const FILL_STRENGTH = 18;
+const BAR_STRENGTH = 30;
+
+function tint(color: string, strength: number): string {
+	return `color-mix(in srgb, ${color} ${strength}%, transparent)`;
+}
+
+/** Blends two tones - position 0 is all `from`, 1 is all `to` */
+function blend(from: FormatTone, to: FormatTone, position: number): string {
+	const toShare = Math.round(position * 100);
+	return `color-mix(in srgb, ${toneColors[to]} ${toShare}%, ${toneColors[from]})`;
+}
+
+// ─── Domain ───
+/** Value range for a column's scales and bars, or null when it has no rules needing one */
+export function getFormatDomain<T>(column: ColumnDef<T>, rows: T[]): FormatDomain | null {
+	const needsDomain = column.conditionalFormat?.some(rule => rule.type !== 'threshold');
+	if (!needsDomain) return null;
+
+	let min = Infinity;
+	let max = -Infinity;
+	rows.forEach(row => {
+		const value = getNumericValue(column, row);
+		if (value === null) return;
+		min = Math.min(min, value);
+		max = Math.max(max, value);
+	});
+
+	return min === Infinity ? null : { min, max };
+}
+
+// ─── Rules ───
+function matchesThreshold(rule: ThresholdRule, value: number): boolean {
+	switch (rule.operator) {
+		case '<': return value < rule.value;
+		case '<=': return value <= rule.value;
+		case '>': return value > rule.value;
+		case '>=': return value >= rule.value;
+		case '=': return value === rule.value;
+		case '!=': return value !== rule.value;
+		case 'between': return value >= rule.value && value <= (rule.max ?? Infinity);
+	}
+}
+
+/** Position of a value within a range, clamped to 0-1 */
+function getPosition(value: number, min: number, max: number): number {
+	if (max <= min) return 1;
+	return Math.min(1, Math.max(0, (value - min) / (max - min)));
+}
+
+function getScaleColor(rule: ColorScaleRule, value: number, domain: FormatDomain | null): string {
+	const { low = 'error', mid = 'warning', high = 'success' } = rule;
+	const position = getPosition(value, rule.min ?? domain?.min ?? value, rule.max ?? domain?.max ?? value);
+
+	if (mid === null) return blend(low, high, position);
+	return position < 0.5
+		? blend(low, mid, position * 2)
+		: blend(mid, high, (position - 0.5) * 2);
+}
+
+function getDataBar(rule: DataBarRule, value: number, domain: FormatDomain | null): DataBar {
+	// Bars grow from zero, so mixed-sign columns get a shared axis
+	const min = Math.min(0, rule.min ?? domain?.min ?? 0);
+	const max = Math.max(0, rule.max ?? domain?.max ?? 0);
+	const zero = getPosition(0, min, max);
+	const position = getPosition(value, min, max);
+	const tone = value < 0 ? rule.negativeTone ?? 'error' : rule.tone ?? 'accent';
+
+	return {
+		left: Math.min(zero, position) * 100,
+		width: Math.abs(position - zero) * 100,
+		color: tint(toneColors[tone], BAR_STRENGTH),
+	};
+}
+
+/**
+ * Resolves a column's rules for one cell.
+ * The first matching threshold sets the text color (and fill); color scales fill cells a threshold left unfilled.
+ */
+export function getCellFormat<T>(column: ColumnDef<T>, row: T, domain: FormatDomain | null): CellFormat | null {
+	const rules = column.conditionalFormat;
+	if (!rules || rules.length === 0) return null;
+
+	const value = getNumericValue(column, row);
+	if (value === null) return null;
+
+	const style: CSSProperties = {};
+	let background: string | undefined;
+	let bar: DataBar | undefined;
+
+	const threshold = rules.find((rule): rule is ThresholdRule => rule.type === 'threshold' && matchesThreshold(rule, value));
+	if (threshold) {
+		style.color = toneColors[threshold.tone];
+		if (threshold.fill) background = tint(toneColors[threshold.tone], FILL_STRENGTH);
+	}
+
+	rules.forEach(rule => {
+		if (rule.type === 'colorScale' && background === undefined) {
+			background = tint(getScaleColor(rule, value, domain), FILL_STRENGTH);
+		} else if (rule.type === 'dataBar' && !bar) {
+			bar = getDataBar(rule, value, domain);
+		}
+	});
+
+	// A gradient layers over pinned cells' opaque background instead of replacing it
+	if (background) style.backgroundImage = `linear-gradient(${background}, ${background})`;
+
+	return { style, bar };
+}
@@ -3,4 +3,55 @@
 // Purpose: Single import point for data display components.
 // ─────────────────────────────────────────────────────────────
 
-export { DataTable, type DataTableProps, type ColumnDef, type SortDirection } from './DataTable';
+export {
+	DataTable,
+	type DataTableProps,
+	type ColumnDef,
+	type SortDirection,
+	type SortDescriptor,
+	type SortState,
+	type RowKey,
+	type SelectionMode,
+	type ColumnFilterDef,
+	type ColumnFilterType,
+	type ColumnFilterValue,
+	type FilterState,
+	type AggregateType,
+	type AggregateReducer,
+	type CellValue,
+	type CellEditorType,
+	type ColumnEditorDef,
+	type PasteRowChange,
+	type PasteCellError,
+	type FormatTone,
+	type ThresholdRule,
+	type ColorScaleRule,
+	type DataBarRule,
+	type ConditionalFormatRule,
+	type DataTableQuery,
+	type ColumnState,
+	type ExportFormat,
+	type ExportScope,
+	type ExportOptions,
+	type DataTableHandle,
+	type DataTableViewState,
+	type DataTableView,
+} from './DataTable';
+export { TablePagination, type TablePaginationProps } from './TablePagination';
+export { localStorageViewAdapter, type ViewStorageAdapter } from './tableViews';
+export {
+	numberColumn,
+	currencyColumn,
+	percentColumn,
+	dateColumn,
+	booleanColumn,
+	deltaColumn,
+	type ColumnPresetOptions,
+	type NumberPresetOptions,
+	type NumberColumnOptions,
+	type CurrencyColumnOptions,
+	type PercentColumnOptions,
+	type DateColumnOptions,
+	type BooleanColumnOptions,
+	type DeltaColumnOptions,
+} from './columnPresets';
@@ -0,0 +1,166 @@
+// ─────────────────────────────────────────────────────────────
+// Utilities: tableExport
+// Purpose: Serializes DataTable rows to CSV, TSV or JSON, copies and parses cell ranges, triggers downloads.
+// Layer: Data Display
+// Used by: DataTable export toolbar, imperative export API, cell-range copy and paste.
+// ─────────────────────────────────────────────────────────────
+
+import type { ColumnDef, ExportFormat } from './DataTable';
+import { getColumnLabel, getColumnValue } from './tableUtils';
+
+// ─── Types ───
+/** Plain value written to an export file */
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+// ─── Format Metadata ───
+const formatConfig: Record<ExportFormat, { extension: string; mimeType: string; delimiter?: string }> = {
+	csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8', delimiter: ',' },
+	tsv: { extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8', delimiter: '\t' },
+	json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+};
+
+// Excel needs a byte order mark to detect UTF-8 (e.g. for £ signs)
+const UTF8_BOM = '\uFEFF';
+
+// ─── Formula Injection ───
+// Spreadsheets run cells starting with these as formulas, e.g. =HYPERLINK(...)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER_TEXT = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+// ─── Values ───
+/** Plain export value for a cell - exportValue, else the filter value or a primitive accessor result */
+export function getExportValue<T>(column: ColumnDef<T>, row: T): ExportValue {
+	if (column.exportValue) return column.exportValue(row);
+
+	const value = getColumnValue(column, row);
+	if (value !== undefined) return value;
+
+	return column.editor?.getValue(row);
+}
+
+function toCellText(value: ExportValue): string {
+	if (value === null || value === undefined) return '';
+	if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString();
+	return String(value);
+}
+
+/** Quotes a delimited field when it contains the delimiter, quotes, line breaks or edge whitespace */
+export function quoteField(text: string, delimiter: string): string {
+	const needsQuotes = text.includes(delimiter)
+		|| /["\r\n]/.test(text)
+		|| text !== text.trim();
+
+	return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Prefixes text a spreadsheet would run as a formula with an apostrophe - signed numbers such as -5 are left alone */
+export function escapeFormula(text: string): string {
+	// Spreadsheets drop leading spaces on import, so " =cmd" still runs
+	const isFormula = FORMULA_PREFIX.test(text) || FORMULA_PREFIX.test(text.trimStart());
+	return isFormula && !NUMBER_TEXT.test(text.trim()) ? `'${text}` : text;
+}
+
+// ─── Serialization ───
+export function serializeRows<T>(
+	rows: T[],
+	columns: ColumnDef<T>[],
+	format: ExportFormat,
+	includeBom = true,
+	escapeFormulas = true
+): string {
+	const { delimiter } = formatConfig[format];
+
+	if (!delimiter) {
+		const records = rows.map(row => {
+			const record: Record<string, ExportValue> = {};
+			columns.forEach(column => {
+				record[column.id] = getExportValue(column, row);
+			});
+			return record;
+		});
+		return JSON.stringify(records, null, 2);
+	}
+
+	const toField = (text: string) => quoteField(escapeFormulas ? escapeFormula(text) : text, delimiter);
+	const lines = [
+		columns.map(column => toField(getColumnLabel(column))).join(delimiter),
+		...rows.map(row =>
+			columns.map(column => toField(toCellText(getExportValue(column, row)))).join(delimiter)
+		),
+	];
+
+	return (includeBom ? UTF8_BOM : '') + lines.join('\r\n');
+}
+
+/** Tab-separated values without a header, as spreadsheets expect on paste */
+export function serializeCellRange<T>(rows: T[], columns: ColumnDef<T>[]): string {
+	return rows
+		.map(row => columns.map(column => quoteField(toCellText(getExportValue(column, row)), '\t')).join('\t'))
+		.join('\r\n');
+}
+
+// ─── Parsing ───
+/** Splits pasted tab-separated text into rows of cells, honouring quoted fields */
+export function parseTsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && field === '') {
+			inQuotes = true;
+		} else if (char === '\t') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+
+	// Spreadsheets end the clipboard with a line break - don't turn it into an empty row
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows;
+}
+
+// ─── Download ───
+export function getExportFilename(filename: string, format: ExportFormat): string {
+	const extension = `.${formatConfig[format].extension}`;
+	return filename.toLowerCase().endsWith(extension) ? filename : `${filename}${extension}`;
+}
+
+export function downloadFile(content: string, filename: string, format: ExportFormat): void {
+	const blob = new Blob([content], { type: formatConfig[format].mimeType });
+	const url = URL.createObjectURL(blob);
+
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = getExportFilename(filename, format);
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+
+	// Revoke after the click has been handled
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
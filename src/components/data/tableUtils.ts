@@ -0,0 +1,469 @@
+// ─────────────────────────────────────────────────────────────
+// Utilities: tableUtils
+// Purpose: Pure helpers shared by the DataTable pipeline (filtering, sorting, grouping, tree data, paging, selection, pasting, aggregates).
+// Layer: Data Display
+// Used by: DataTable, TablePagination, TableCardList.
+// ─────────────────────────────────────────────────────────────
+
+import type { ReactNode } from 'react';
+import type { SelectOption } from '../ui/Select';
+import type { AggregateType, CellValue, ColumnDef, ColumnEditorDef, ColumnFilterValue, FilterState, RowKey, SortState } from './DataTable';
+
+/** Plain (non-ReactNode) cell value used for filtering and searching */
+export type PlainValue = string | number | Date | null | undefined;
+
+// ─── Columns ───
+/** Readable column name for labels and menus - falls back to the id for rich headers */
+export function getColumnLabel<T>(column: ColumnDef<T>): string {
+	return typeof column.header === 'string' || typeof column.header === 'number'
+		? String(column.header)
+		: column.id;
+}
+
+/** Plain value for a cell - the filter's getValue, else a primitive accessor result */
+export function getColumnValue<T>(column: ColumnDef<T>, row: T): PlainValue {
+	if (column.filter?.getValue) return column.filter.getValue(row);
+
+	const value = column.accessor(row);
+	return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+}
+
+// ─── Column Layout ───
+/** Columns in the saved order - unknown ids are ignored and new columns keep their definition order */
+export function orderColumns<T>(columns: ColumnDef<T>[], order: string[] | undefined): ColumnDef<T>[] {
+	if (!order || order.length === 0) return columns;
+
+	const byId = new Map(columns.map(column => [column.id, column]));
+	const ordered = order.flatMap(id => byId.get(id) ?? []);
+	const placed = new Set(ordered.map(column => column.id));
+	return [...ordered, ...columns.filter(column => !placed.has(column.id))];
+}
+
+/** Move a column before or after another, returning the full id order */
+export function moveColumn(order: string[], columnId: string, targetId: string, side: 'before' | 'after'): string[] {
+	const next = order.filter(id => id !== columnId);
+	const targetIndex = next.indexOf(targetId);
+	if (targetIndex === -1) return order;
+
+	next.splice(side === 'before' ? targetIndex : targetIndex + 1, 0, columnId);
+	return next;
+}
+
+/** Sticky offsets for the first `startCount` and last `endCount` cells, from their measured widths */
+export function getStickyOffsets(widths: number[], startCount: number, endCount: number): number[] {
+	const offsets = new Array<number>(widths.length).fill(0);
+
+	let left = 0;
+	for (let i = 0; i < startCount; i++) {
+		offsets[i] = left;
+		left += widths[i];
+	}
+
+	let right = 0;
+	for (let i = widths.length - 1; i >= widths.length - endCount; i--) {
+		offsets[i] = right;
+		right += widths[i];
+	}
+
+	return offsets;
+}
+
+// ─── Loading ───
+/** Skeleton bar widths in percent, cycled for a ragged look */
+export const SKELETON_WIDTHS = [70, 45, 85, 60];
+
+// ─── Pagination ───
+export function getPageCount(totalCount: number, pageSize: number): number {
+	return Math.max(1, Math.ceil(totalCount / Math.max(1, pageSize)));
+}
+
+export function clampPage(page: number, pageCount: number): number {
+	return Math.min(Math.max(1, Math.floor(page)), pageCount);
+}
+
+// ─── Filtering ───
+/** Local calendar day (YYYY-MM-DD) for date comparisons */
+function toDateKey(value: PlainValue): string | null {
+	if (value === null || value === undefined || value === '') return null;
+	if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+
+	const date = value instanceof Date ? value : new Date(value);
+	if (isNaN(date.getTime())) return null;
+
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function toSearchText(value: PlainValue): string {
+	if (value === null || value === undefined) return '';
+	return value instanceof Date ? value.toLocaleDateString() : String(value);
+}
+
+export function isFilterActive(filter: ColumnFilterValue | undefined): boolean {
+	if (!filter) return false;
+
+	switch (filter.type) {
+		case 'text':
+			return filter.value.trim() !== '';
+		case 'number':
+			return filter.min !== undefined || filter.max !== undefined;
+		case 'enum':
+			return filter.values.length > 0;
+		case 'date':
+			return Boolean(filter.from || filter.to);
+	}
+}
+
+export function matchesFilter(value: PlainValue, filter: ColumnFilterValue): boolean {
+	switch (filter.type) {
+		case 'text':
+			return toSearchText(value).toLowerCase().includes(filter.value.trim().toLowerCase());
+
+		case 'number': {
+			const number = typeof value === 'number' ? value : Number(value ?? NaN);
+			if (isNaN(number)) return false;
+			return (filter.min === undefined || number >= filter.min)
+				&& (filter.max === undefined || number <= filter.max);
+		}
+
+		case 'enum':
+			return filter.values.includes(toSearchText(value));
+
+		case 'date': {
+			const key = toDateKey(value);
+			if (key === null) return false;
+			return (!filter.from || key >= filter.from) && (!filter.to || key <= filter.to);
+		}
+	}
+}
+
+export function filterRows<T>(
+	rows: T[],
+	columns: ColumnDef<T>[],
+	filters: FilterState,
+	globalFilter: string
+): T[] {
+	const activeFilters = columns
+		.filter(column => isFilterActive(filters[column.id]))
+		.map(column => ({ column, filter: filters[column.id] }));
+	const query = globalFilter.trim().toLowerCase();
+	const searchColumns = query ? columns.filter(column => column.searchable !== false) : [];
+
+	if (activeFilters.length === 0 && !query) return rows;
+
+	return rows.filter(row =>
+		activeFilters.every(({ column, filter }) => matchesFilter(getColumnValue(column, row), filter))
+		&& (!query || searchColumns.some(column =>
+			toSearchText(getColumnValue(column, row)).toLowerCase().includes(query)
+		))
+	);
+}
+
+/** Distinct values of a column as enum filter options */
+export function getEnumOptions<T>(column: ColumnDef<T>, rows: T[]): SelectOption[] {
+	if (column.filter?.options) return column.filter.options;
+
+	const values = new Set<string>();
+	rows.forEach(row => {
+		const text = toSearchText(getColumnValue(column, row));
+		if (text) values.add(text);
+	});
+
+	return [...values]
+		.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+		.map(value => ({ value, label: value }));
+}
+
+// ─── Sorting ───
+export function compareValues(a: unknown, b: unknown): number {
+	if (typeof a === 'number' && typeof b === 'number') {
+		return a - b;
+	}
+
+	return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+/** Row comparator for a sort state, or null when nothing applies */
+export function getRowComparator<T>(columns: ColumnDef<T>[], sort: SortState): ((a: T, b: T) => number) | null {
+	// Resolve descriptors to columns up front, dropping unknown ids
+	const criteria = sort
+		.map(descriptor => ({
+			column: columns.find(c => c.id === descriptor.columnId),
+			sign: descriptor.direction === 'desc' ? -1 : 1,
+		}))
+		.filter((criterion): criterion is { column: ColumnDef<T>; sign: number } => Boolean(criterion.column));
+
+	if (criteria.length === 0) return null;
+
+	return (a, b) => {
+		for (const { column, sign } of criteria) {
+			const result = column.sortFn
+				? column.sortFn(a, b)
+				: compareValues(column.accessor(a), column.accessor(b));
+
+			if (result !== 0) return result * sign;
+		}
+		return 0;
+	};
+}
+
+export function sortRows<T>(rows: T[], columns: ColumnDef<T>[], sort: SortState): T[] {
+	const compare = getRowComparator(columns, sort);
+	return compare ? [...rows].sort(compare) : rows;
+}
+
+/**
+ * Computes the next sort state for a header click.
+ * Plain clicks sort by that column alone, cycling asc -> desc -> none.
+ * Additive (shift) clicks append the column or cycle it in place.
+ */
+export function getNextSort(sort: SortState, columnId: string, additive: boolean): SortState {
+	const existing = sort.find(descriptor => descriptor.columnId === columnId);
+
+	if (!additive) {
+		if (!existing) return [{ columnId, direction: 'asc' }];
+		return existing.direction === 'asc' ? [{ columnId, direction: 'desc' }] : [];
+	}
+
+	if (!existing) return [...sort, { columnId, direction: 'asc' }];
+	if (existing.direction === 'asc') {
+		return sort.map(descriptor =>
+			descriptor.columnId === columnId ? { columnId, direction: 'desc' } : descriptor
+		);
+	}
+	return sort.filter(descriptor => descriptor.columnId !== columnId);
+}
+
+// ─── Grouping ───
+export interface GroupedRows<T> {
+	/** Group key shared by every row in the group */
+	key: string;
+	/** Rows in display order */
+	rows: T[];
+	/** Positions of the rows in the sorted input */
+	indexes: number[];
+}
+
+/**
+ * Partitions sorted rows into groups, keeping each group's rows in their sorted order.
+ * Groups are ordered by key (numeric-aware) in the given direction.
+ */
+export function groupRows<T>(
+	rows: T[],
+	getGroupKey: (row: T) => string,
+	direction: 'asc' | 'desc'
+): GroupedRows<T>[] {
+	const groups = new Map<string, GroupedRows<T>>();
+
+	rows.forEach((row, index) => {
+		const key = getGroupKey(row);
+		let group = groups.get(key);
+		if (!group) {
+			group = { key, rows: [], indexes: [] };
+			groups.set(key, group);
+		}
+		group.rows.push(row);
+		group.indexes.push(index);
+	});
+
+	const sign = direction === 'desc' ? -1 : 1;
+	return [...groups.values()].sort((a, b) =>
+		a.key.localeCompare(b.key, undefined, { numeric: true }) * sign
+	);
+}
+
+// ─── Tree Data ───
+/** Indent per tree level in pixels */
+export const TREE_INDENT = 16;
+
+export interface TreeNode<T> {
+	row: T;
+	/** Children left after filtering */
+	children: TreeNode<T>[];
+}
+
+export interface TreeRow<T> {
+	row: T;
+	key: RowKey;
+	/** Nesting level, 0 for top-level rows */
+	depth: number;
+	parentKey: RowKey | null;
+	node: TreeNode<T>;
+}
+
+/** Builds the row tree, keeping rows that match the filters plus the ancestors of matching rows */
+export function buildTree<T>(
+	rows: T[],
+	getSubRows: (row: T) => T[] | undefined,
+	columns: ColumnDef<T>[],
+	filters: FilterState,
+	globalFilter: string
+): TreeNode<T>[] {
+	const matched = new Set(filterRows(rows, columns, filters, globalFilter));
+
+	return rows.flatMap(row => {
+		const children = buildTree(getSubRows(row) ?? [], getSubRows, columns, filters, globalFilter);
+		return matched.has(row) || children.length > 0 ? [{ row, children }] : [];
+	});
+}
+
+/** Sorts every level independently so children stay under their parents */
+export function sortTree<T>(nodes: TreeNode<T>[], columns: ColumnDef<T>[], sort: SortState): TreeNode<T>[] {
+	const compare = getRowComparator(columns, sort);
+	if (!compare) return nodes;
+
+	const sortLevel = (level: TreeNode<T>[]): TreeNode<T>[] =>
+		[...level]
+			.sort((a, b) => compare(a.row, b.row))
+			.map(node => ({ row: node.row, children: sortLevel(node.children) }));
+
+	return sortLevel(nodes);
+}
+
+/** Depth-first display order, descending only into expanded rows */
+export function flattenTree<T>(
+	nodes: TreeNode<T>[],
+	getRowKey: (row: T, index: number) => RowKey,
+	isExpanded: (key: RowKey) => boolean
+): TreeRow<T>[] {
+	const result: TreeRow<T>[] = [];
+
+	const visit = (level: TreeNode<T>[], depth: number, parentKey: RowKey | null) => {
+		level.forEach(node => {
+			const key = getRowKey(node.row, result.length);
+			result.push({ row: node.row, key, depth, parentKey, node });
+			if (node.children.length > 0 && isExpanded(key)) {
+				visit(node.children, depth + 1, key);
+			}
+		});
+	};
+
+	visit(nodes, 0, null);
+	return result;
+}
+
+/** Every row in the tree, parents before their children */
+export function getAllTreeRows<T>(nodes: TreeNode<T>[]): T[] {
+	return nodes.flatMap(node => [node.row, ...getAllTreeRows(node.children)]);
+}
+
+/** Rows without children - the values parent and footer aggregates are built from */
+export function getLeafRows<T>(nodes: TreeNode<T>[]): T[] {
+	return nodes.flatMap(node => node.children.length > 0 ? getLeafRows(node.children) : [node.row]);
+}
+
+// ─── Selection ───
+/** Keys between two rows (inclusive) in display order, or just the target if the anchor is gone. */
+export function getKeyRange<K>(keys: K[], anchor: K, target: K): K[] {
+	const anchorIndex = keys.indexOf(anchor);
+	const targetIndex = keys.indexOf(target);
+
+	if (anchorIndex === -1 || targetIndex === -1) return [target];
+
+	return keys.slice(
+		Math.min(anchorIndex, targetIndex),
+		Math.max(anchorIndex, targetIndex) + 1
+	);
+}
+
+// ─── Pasting ───
+const TRUE_TEXT = /^(true|yes|y|1|on|x)$/i;
+const FALSE_TEXT = /^(false|no|n|0|off)$/i;
+
+const numberPatterns = new Map<string, { pattern: RegExp; group: string; decimal: string }>();
+
+/** Matches a number written the locale's way, e.g. 1,234.5 in en-US or 1.234,5 in de-DE */
+function getNumberPattern(locale: string | undefined) {
+	const cacheKey = locale ?? '';
+	const cached = numberPatterns.get(cacheKey);
+	if (cached) return cached;
+
+	const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+	// Space-like group separators (fr-FR) are stripped with the other whitespace
+	const group = (parts.find(part => part.type === 'group')?.value ?? ',').replace(/\s/g, '');
+	const decimal = parts.find(part => part.type === 'decimal')?.value ?? '.';
+	const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const integer = group ? `\\d{1,3}(?:${escape(group)}\\d{3})+|\\d+` : '\\d+';
+
+	const entry = {
+		pattern: new RegExp(`^[-+]?(?:${integer})?(?:${escape(decimal)}\\d+)?(?:e[-+]?\\d+)?$`, 'i'),
+		group,
+		decimal,
+	};
+	numberPatterns.set(cacheKey, entry);
+	return entry;
+}
+
+/** Reads pasted text for an editor type - undefined when the text can't be read (blank number cells clear the value) */
+export function parseCellText<T>(editor: ColumnEditorDef<T>, text: string): CellValue {
+	const trimmed = text.trim();
+
+	switch (editor.type) {
+		case 'number': {
+			if (trimmed === '') return undefined;
+			// Spreadsheets paste formatted numbers - drop currency symbols and accounting brackets
+			const negative = /^\(.*\)$/.test(trimmed);
+			const cleaned = trimmed.replace(/[()£$€\s]/g, '');
+			// Separators must match the editor's locale, so 1.234,5 isn't read as 1.2345 in en-US
+			const { pattern, group, decimal } = getNumberPattern(editor.locale);
+			if (!/\d/.test(cleaned) || !pattern.test(cleaned)) return undefined;
+
+			const value = Number((group ? cleaned.split(group).join('') : cleaned).replace(decimal, '.'));
+			return isNaN(value) ? undefined : negative ? -value : value;
+		}
+		case 'toggle':
+			return TRUE_TEXT.test(trimmed) ? true : FALSE_TEXT.test(trimmed) || trimmed === '' ? false : undefined;
+		case 'select': {
+			const lower = trimmed.toLowerCase();
+			return editor.options?.find(option =>
+				option.value.toLowerCase() === lower || option.label.toLowerCase() === lower)?.value;
+		}
+		case 'text':
+		default:
+			return text;
+	}
+}
+
+// ─── Aggregates ───
+const aggregateReducers: Record<AggregateType, (values: number[], rowCount: number) => number | null> = {
+	sum: (values) => values.reduce((total, value) => total + value, 0),
+	average: (values) => values.length === 0 ? null : values.reduce((total, value) => total + value, 0) / values.length,
+	// Reduced rather than spread into Math.min/max, which overflows the call stack on large datasets
+	min: (values) => values.length === 0 ? null : values.reduce((lowest, value) => value < lowest ? value : lowest),
+	max: (values) => values.length === 0 ? null : values.reduce((highest, value) => value > highest ? value : highest),
+	count: (_values, rowCount) => rowCount,
+};
+
+/** Numeric cell value for aggregates - null when the cell has no usable number */
+export function getNumericValue<T>(column: ColumnDef<T>, row: T): number | null {
+	const value = column.aggregateValue ? column.aggregateValue(row) : getColumnValue(column, row);
+	if (value === null || value === undefined || value === '' || value instanceof Date) return null;
+
+	const number = typeof value === 'number' ? value : Number(value);
+	return isNaN(number) ? null : number;
+}
+
+/** Computes a column's aggregate over the given rows, or null when it has none */
+export function computeAggregate<T>(column: ColumnDef<T>, rows: T[]): number | null {
+	if (!column.aggregate) return null;
+
+	const values: number[] = [];
+	rows.forEach(row => {
+		const value = getNumericValue(column, row);
+		if (value !== null) values.push(value);
+	});
+
+	return typeof column.aggregate === 'function'
+		? column.aggregate(values, rows)
+		: aggregateReducers[column.aggregate](values, rows.length);
+}
+
+export function formatAggregate<T>(column: ColumnDef<T>, value: number | null): ReactNode {
+	if (value === null) return '—';
+	if (column.formatAggregate) return column.formatAggregate(value);
+
+	return column.aggregate === 'count'
+		? value.toLocaleString()
+		: value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
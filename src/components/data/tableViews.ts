@@ -0,0 +1,141 @@
+// ─────────────────────────────────────────────────────────────
+// Utilities: tableViews
+// Purpose: Storage adapters and helpers for DataTable saved views.
+// Layer: Data Display
+// Used by: DataTable views menu.
+// ─────────────────────────────────────────────────────────────
+
+import type { ColumnFilterValue, DataTableView, DataTableViewState, SortDescriptor } from './DataTable';
+
+// ─── Types ───
+/** Loads and saves the views for one table - return promises for remote storage, and reject when a request fails */
+export interface ViewStorageAdapter {
+	load: (key: string) => DataTableView[] | Promise<DataTableView[]>;
+	save: (key: string, views: DataTableView[]) => void | Promise<void>;
+}
+
+// ─── Local Storage Adapter ───
+const STORAGE_PREFIX = 'data-table-views:';
+
+export const localStorageViewAdapter: ViewStorageAdapter = {
+	load: (key) => {
+		if (typeof window === 'undefined') return [];
+		try {
+			const stored = localStorage.getItem(`${STORAGE_PREFIX}${key}`);
+			const views: unknown = stored ? JSON.parse(stored) : [];
+			return Array.isArray(views) ? views.filter(isSavedView) : [];
+		} catch {
+			// Corrupt or inaccessible storage starts from an empty list
+			return [];
+		}
+	},
+	// Quota and disabled-storage errors throw so the table can roll back and report them
+	save: (key, views) => {
+		if (typeof window === 'undefined') return;
+		localStorage.setItem(`${STORAGE_PREFIX}${key}`, JSON.stringify(views));
+	},
+};
+
+// ─── Helpers ───
+export function createViewId(): string {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+	return typeof value === 'string';
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(isString);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOptional<V>(value: unknown, check: (value: unknown) => value is V): boolean {
+	return value === undefined || check(value);
+}
+
+/** Structural equality for JSON-like values - object key order is ignored */
+function isEqualJson(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (Array.isArray(a) || Array.isArray(b)) {
+		return Array.isArray(a)
+			&& Array.isArray(b)
+			&& a.length === b.length
+			&& a.every((item, index) => isEqualJson(item, b[index]));
+	}
+	if (!isRecord(a) || !isRecord(b)) return false;
+
+	const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+	return [...keys].every(key => isEqualJson(a[key], b[key]));
+}
+
+// ─── Validation ───
+/** Whether a stored filter has every field its type needs */
+function isFilterValue(value: unknown): value is ColumnFilterValue {
+	if (!isRecord(value)) return false;
+
+	switch (value.type) {
+		case 'text':
+			return isString(value.value);
+		case 'number':
+			return isOptional(value.min, isFiniteNumber) && isOptional(value.max, isFiniteNumber);
+		case 'enum':
+			return isStringArray(value.values);
+		case 'date':
+			return isOptional(value.from, isString) && isOptional(value.to, isString);
+		default:
+			return false;
+	}
+}
+
+/** Whether stored data has a view's shape - its state is normalized when applied */
+export function isSavedView(value: unknown): value is DataTableView {
+	return isRecord(value)
+		&& typeof value.id === 'string'
+		&& typeof value.name === 'string'
+		&& isRecord(value.state);
+}
+
+/** Fills in fields missing from older or hand-edited views and drops malformed entries */
+export function normalizeViewState(state: Partial<DataTableViewState>, fallbackPageSize: number): DataTableViewState {
+	const sort: unknown = state.sort;
+	const filters: unknown = state.filters;
+	const columnState: unknown = state.columnState;
+	const groupBy: unknown = state.groupBy;
+	const columns = isRecord(columnState) ? columnState : {};
+
+	return {
+		sort: Array.isArray(sort)
+			? sort.filter((descriptor): descriptor is SortDescriptor => isRecord(descriptor)
+				&& typeof descriptor.columnId === 'string'
+				&& (descriptor.direction === 'asc' || descriptor.direction === 'desc'))
+			: [],
+		filters: isRecord(filters)
+			? Object.fromEntries(Object.entries(filters).filter((entry): entry is [string, ColumnFilterValue] =>
+				isFilterValue(entry[1])))
+			: {},
+		globalFilter: typeof state.globalFilter === 'string' ? state.globalFilter : '',
+		columnState: {
+			order: isStringArray(columns.order) ? columns.order : [],
+			hidden: isStringArray(columns.hidden) ? columns.hidden : [],
+			widths: isRecord(columns.widths)
+				? Object.fromEntries(Object.entries(columns.widths).filter((entry): entry is [string, number] =>
+					isFiniteNumber(entry[1])))
+				: {},
+		},
+		...(typeof groupBy === 'string' || groupBy === null ? { groupBy } : {}),
+		pageSize: typeof state.pageSize === 'number' && state.pageSize > 0 ? state.pageSize : fallbackPageSize,
+	};
+}
+
+/** Compares view states field by field, treating missing column state as empty */
+export function isSameViewState(a: DataTableViewState, b: DataTableViewState): boolean {
+	return isEqualJson(normalizeViewState(a, a.pageSize), normalizeViewState(b, b.pageSize));
+}
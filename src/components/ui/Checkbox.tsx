@@ -6,8 +6,8 @@
 // ─────────────────────────────────────────────────────────────
 
 import type { InputHTMLAttributes } from 'react';
-import { forwardRef, useId } from 'react';
-import { Check } from 'lucide-react';
+import { forwardRef, useEffect, useId, useImperativeHandle, useRef } from 'react';
+import { Check, Minus } from 'lucide-react';
 
 // ─── Types ───
 export interface CheckboxProps extends Omit<InputHTMLAttributes<HTMLInputElement>, 'type' | 'size'> {
@@ -19,6 +19,8 @@ export interface CheckboxProps extends Omit<InputHTMLAttributes<HTMLInputElement
 	errorText?: string;
 	/** Size preset */
 	size?: 'sm' | 'md' | 'lg';
+	/** Mixed state (e.g. "select all" with some children selected) - takes visual precedence over checked */
+	indeterminate?: boolean;
 }
 
 // ─── Size Styles ───
@@ -40,6 +42,7 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
 			className = '',
 			id,
 			checked,
+			indeterminate = false,
 			...props
 		},
 		ref
@@ -49,6 +52,16 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
 		const inputId = id || generatedId;
 		const hasError = Boolean(errorText);
 
+		// Indeterminate is a DOM-only property, so sync it through a local ref
+		const inputRef = useRef<HTMLInputElement>(null);
+		useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+		useEffect(() => {
+			if (inputRef.current) {
+				inputRef.current.indeterminate = indeterminate;
+			}
+		}, [indeterminate]);
+
 		return (
 			<div className="flex flex-col gap-1.5">
 				<div className="flex items-start gap-2">
@@ -56,11 +69,12 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
 					<div className="relative flex items-center">
 						{/* Hidden Native Checkbox */}
 						<input
-							ref={ref}
+							ref={inputRef}
 							type="checkbox"
 							id={inputId}
 							disabled={disabled}
 							checked={checked}
+							aria-checked={indeterminate ? 'mixed' : undefined}
 							className="sr-only peer"
 							{...props}
 						/>
@@ -80,12 +94,19 @@ export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
 									? 'border-error peer-checked:bg-error peer-checked:border-error'
 									: 'border-border-default peer-checked:bg-accent-primary peer-checked:border-accent-primary'
 								}
+                ${indeterminate ? (hasError ? 'bg-error border-error' : 'bg-accent-primary border-accent-primary') : ''}
                 ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-accent-primary'}
                 ${className}
               `}
 						>
-							{/* Check Icon */}
-							{checked && (
+							{/* Check / Indeterminate Icon */}
+							{indeterminate ? (
+								<Minus
+									size={sizeStyles[size].icon}
+									className="text-white"
+									strokeWidth={3}
+								/>
+							) : checked && (
 								<Check
 									size={sizeStyles[size].icon}
 									className="text-white"
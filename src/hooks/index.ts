@@ -4,6 +4,10 @@
 // ─────────────────────────────────────────────────────────────
 
 export { usePanelCollapse, type UsePanelCollapseOptions, type UsePanelCollapseReturn } from './usePanelCollapse';
-export { useResponsiveBreakpoints, type UseResponsiveBreakpointsReturn, type Breakpoint } from './useResponsiveBreakpoints';
+export { useResponsiveBreakpoints, type UseResponsiveBreakpointsOptions, type UseResponsiveBreakpointsReturn, type Breakpoint } from './useResponsiveBreakpoints';
 export { useSyncedSliderInput, type UseSyncedSliderInputOptions, type UseSyncedSliderInputReturn } from './useSyncedSliderInput';
+export { useControllableState, type UseControllableStateOptions, type UseControllableStateReturn } from './useControllableState';
+export { useVirtualRows, type UseVirtualRowsOptions, type UseVirtualRowsReturn } from './useVirtualRows';
+export { useAnchoredPopover, type UseAnchoredPopoverOptions, type UseAnchoredPopoverReturn, type PopoverPosition } from './useAnchoredPopover';
+export { useElementSize, type UseElementSizeReturn } from './useElementSize';
 export { useTheme, ACCENT_PRESETS, type UseThemeOptions, type UseThemeReturn, type ThemeMode, type AccentPreset } from './useTheme';
@@ -0,0 +1,114 @@
+// ─────────────────────────────────────────────────────────────
+// Hook: useAnchoredPopover
+// Purpose: Open/close state and fixed positioning for a menu anchored to a trigger.
+// Layer: Hooks
+// Used by: DataTable column filter and column chooser menus.
+// ─────────────────────────────────────────────────────────────
+
+import type { RefObject } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+// ─── Types ───
+export interface UseAnchoredPopoverOptions {
+	/** Align the popover with the anchor's left (start) or right (end) edge */
+	align?: 'start' | 'end';
+	/** Gap between the anchor and the popover in pixels */
+	offset?: number;
+}
+
+export interface PopoverPosition {
+	top: number;
+	left?: number;
+	right?: number;
+	minWidth: number;
+}
+
+export interface UseAnchoredPopoverReturn<A extends HTMLElement> {
+	/** Ref for the trigger element */
+	anchorRef: RefObject<A | null>;
+	/** Ref for the popover element */
+	popoverRef: RefObject<HTMLDivElement | null>;
+	/** Fixed-position style for the popover, null when closed */
+	position: PopoverPosition | null;
+	/** Whether the popover is open */
+	isOpen: boolean;
+	/** Open below the anchor */
+	open: () => void;
+	/** Close the popover */
+	close: () => void;
+	/** Toggle the popover */
+	toggle: () => void;
+}
+
+// ─── Hook ───
+export function useAnchoredPopover<A extends HTMLElement = HTMLButtonElement>({
+	align = 'start',
+	offset = 4,
+}: UseAnchoredPopoverOptions = {}): UseAnchoredPopoverReturn<A> {
+	const anchorRef = useRef<A>(null);
+	const popoverRef = useRef<HTMLDivElement>(null);
+	const [position, setPosition] = useState<PopoverPosition | null>(null);
+
+	// Fixed positioning escapes overflow containers such as scrolling tables
+	const open = useCallback(() => {
+		const rect = anchorRef.current?.getBoundingClientRect();
+		if (!rect) return;
+
+		setPosition(align === 'end'
+			? { top: rect.bottom + offset, right: window.innerWidth - rect.right, minWidth: rect.width }
+			: { top: rect.bottom + offset, left: rect.left, minWidth: rect.width });
+	}, [align, offset]);
+
+	const close = useCallback(() => setPosition(null), []);
+
+	const toggle = useCallback(() => {
+		if (position) {
+			close();
+		} else {
+			open();
+		}
+	}, [position, open, close]);
+
+	// Close on outside click, Escape, scroll or resize
+	useEffect(() => {
+		if (!position) return;
+
+		const handleMouseDown = (e: MouseEvent) => {
+			const target = e.target as Node;
+			if (!popoverRef.current?.contains(target) && !anchorRef.current?.contains(target)) {
+				close();
+			}
+		};
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (e.key === 'Escape') {
+				close();
+				anchorRef.current?.focus();
+			}
+		};
+		const handleScroll = (e: Event) => {
+			if (!popoverRef.current?.contains(e.target as Node)) close();
+		};
+
+		document.addEventListener('mousedown', handleMouseDown);
+		document.addEventListener('keydown', handleKeyDown);
+		window.addEventListener('scroll', handleScroll, true);
+		window.addEventListener('resize', close);
+
+		return () => {
+			document.removeEventListener('mousedown', handleMouseDown);
+			document.removeEventListener('keydown', handleKeyDown);
+			window.removeEventListener('scroll', handleScroll, true);
+			window.removeEventListener('resize', close);
+		};
+	}, [position, close]);
+
+	return {
+		anchorRef,
+		popoverRef,
+		position,
+		isOpen: position !== null,
+		open,
+		close,
+		toggle,
+	};
+}
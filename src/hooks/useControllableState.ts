@@ -0,0 +1,55 @@
+// ─────────────────────────────────────────────────────────────
+// Hook: useControllableState
+// Purpose: Single value state with controlled/uncontrolled support.
+// Layer: Hooks
+// Used by: DataTable (page, page size) and components exposing value/defaultValue/onChange triplets.
+// ─────────────────────────────────────────────────────────────
+
+import { useState, useCallback, useMemo } from 'react';
+
+// ─── Types ───
+export interface UseControllableStateOptions<T> {
+	/** Controlled value - overrides internal state when defined */
+	value?: T;
+	/** Initial value for uncontrolled usage */
+	defaultValue: T;
+	/** Callback when the value changes */
+	onChange?: (value: T) => void;
+}
+
+export interface UseControllableStateReturn<T> {
+	/** Current value */
+	value: T;
+	/** Update the value (internal state only updates when uncontrolled) */
+	setValue: (value: T) => void;
+	/** Whether the value is controlled externally */
+	isControlled: boolean;
+}
+
+// ─── Hook ───
+export function useControllableState<T>({
+	value: controlledValue,
+	defaultValue,
+	onChange,
+}: UseControllableStateOptions<T>): UseControllableStateReturn<T> {
+	const [internalValue, setInternalValue] = useState<T>(defaultValue);
+
+	// Use controlled value if provided
+	const isControlled = controlledValue !== undefined;
+	const value = isControlled ? controlledValue : internalValue;
+
+	// ─── Set Value Handler ───
+	const setValue = useCallback((nextValue: T) => {
+		if (!isControlled) {
+			setInternalValue(nextValue);
+		}
+
+		onChange?.(nextValue);
+	}, [isControlled, onChange]);
+
+	return useMemo(() => ({
+		value,
+		setValue,
+		isControlled,
+	}), [value, setValue, isControlled]);
+}
@@ -0,0 +1,42 @@
+// ─────────────────────────────────────────────────────────────
+// Hook: useElementSize
+// Purpose: Tracks the rendered size of an element with a ResizeObserver.
+// Layer: Hooks
+// Used by: Charts and other components that size themselves to their container.
+// ─────────────────────────────────────────────────────────────
+
+import type { RefObject } from 'react';
+import { useState, useEffect, useRef } from 'react';
+
+// ─── Types ───
+export interface UseElementSizeReturn<E extends HTMLElement> {
+	/** Ref for the measured element */
+	ref: RefObject<E | null>;
+	/** Content width in pixels (0 until measured) */
+	width: number;
+	/** Content height in pixels (0 until measured) */
+	height: number;
+}
+
+// ─── Hook ───
+export function useElementSize<E extends HTMLElement = HTMLDivElement>(): UseElementSizeReturn<E> {
+	const ref = useRef<E>(null);
+	const [size, setSize] = useState({ width: 0, height: 0 });
+
+	useEffect(() => {
+		const element = ref.current;
+		if (!element) return;
+
+		const observer = new ResizeObserver(([entry]) => {
+			const { width, height } = entry.contentRect;
+			// Skip no-op updates so observers don't re-render unchanged layouts
+			setSize(previous =>
+				previous.width === width && previous.height === height ? previous : { width, height });
+		});
+
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, []);
+
+	return { ref, width: size.width, height: size.height };
+}
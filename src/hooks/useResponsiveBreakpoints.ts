@@ -10,6 +10,11 @@ import { useState, useEffect, useMemo } from 'react';
 // ─── Types ───
 export type Breakpoint = 'xs' | 'sm' | 'md' | 'lg' | 'xl' | '2xl';
 
+export interface UseResponsiveBreakpointsOptions {
+	/** Skip the resize listener - the width stays at its initial value */
+	disabled?: boolean;
+}
+
 export interface UseResponsiveBreakpointsReturn {
 	/** Current breakpoint name */
 	breakpoint: Breakpoint;
@@ -34,7 +39,7 @@ export interface UseResponsiveBreakpointsReturn {
 }
 
 // ─── Breakpoint Thresholds (Tailwind defaults) ───
-const BREAKPOINTS: Record<Breakpoint, number> = {
+export const BREAKPOINTS: Record<Breakpoint, number> = {
 	xs: 0,
 	sm: 640,
 	md: 768,
@@ -54,12 +59,16 @@ function getBreakpoint(width: number): Breakpoint {
 }
 
 // ─── Hook ───
-export function useResponsiveBreakpoints(): UseResponsiveBreakpointsReturn {
+export function useResponsiveBreakpoints({
+	disabled = false,
+}: UseResponsiveBreakpointsOptions = {}): UseResponsiveBreakpointsReturn {
 	const [width, setWidth] = useState(() =>
 		typeof window !== 'undefined' ? window.innerWidth : 1024
 	);
 
 	useEffect(() => {
+		if (disabled) return;
+
 		const handleResize = () => {
 			setWidth(window.innerWidth);
 		};
@@ -80,7 +89,7 @@ export function useResponsiveBreakpoints(): UseResponsiveBreakpointsReturn {
 			window.removeEventListener('resize', debouncedResize);
 			clearTimeout(timeoutId);
 		};
-	}, []);
+	}, [disabled]);
 
 	return useMemo(() => {
 		const breakpoint = getBreakpoint(width);
@@ -0,0 +1,122 @@
+// ─────────────────────────────────────────────────────────────
+// Hook: useVirtualRows
+// Purpose: Computes the window of rows visible inside a scroll container.
+// Layer: Hooks
+// Used by: DataTable virtualized body, long lists with fixed or variable row heights.
+// ─────────────────────────────────────────────────────────────
+
+import type { RefObject } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+
+// ─── Types ───
+export interface UseVirtualRowsOptions {
+	/** Total number of rows */
+	count: number;
+	/** Row height in pixels, or a per-row height resolver */
+	rowHeight: number | ((index: number) => number);
+	/** Scroll container that holds the rows */
+	scrollRef: RefObject<HTMLElement | null>;
+	/** Extra rows rendered above and below the viewport */
+	overscan?: number;
+	/** Disable windowing and render every row */
+	disabled?: boolean;
+}
+
+export interface UseVirtualRowsReturn {
+	/** First rendered row index (inclusive) */
+	startIndex: number;
+	/** Last rendered row index (exclusive) */
+	endIndex: number;
+	/** Space to reserve before the first rendered row */
+	paddingTop: number;
+	/** Space to reserve after the last rendered row */
+	paddingBottom: number;
+	/** Combined height of all rows */
+	totalHeight: number;
+}
+
+// ─── Find Row at Offset (binary search over cumulative offsets) ───
+function findRowIndex(offsets: number[], target: number): number {
+	let low = 0;
+	let high = offsets.length - 2;
+
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (offsets[mid] <= target) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+
+	return Math.max(0, low);
+}
+
+// ─── Hook ───
+export function useVirtualRows({
+	count,
+	rowHeight,
+	scrollRef,
+	overscan = 6,
+	disabled = false,
+}: UseVirtualRowsOptions): UseVirtualRowsReturn {
+	const [scrollTop, setScrollTop] = useState(0);
+	const [viewportHeight, setViewportHeight] = useState(0);
+
+	// Track scroll position and container size
+	useEffect(() => {
+		const element = scrollRef.current;
+		if (disabled || !element) return;
+
+		const handleScroll = () => {
+			setScrollTop(element.scrollTop);
+		};
+
+		const resizeObserver = new ResizeObserver(() => {
+			setViewportHeight(element.clientHeight);
+		});
+
+		element.addEventListener('scroll', handleScroll, { passive: true });
+		resizeObserver.observe(element);
+
+		// Initial measurement
+		handleScroll();
+		setViewportHeight(element.clientHeight);
+
+		return () => {
+			element.removeEventListener('scroll', handleScroll);
+			resizeObserver.disconnect();
+		};
+	}, [scrollRef, disabled]);
+
+	// Cumulative row offsets - offsets[i] is the top of row i, offsets[count] the total
+	const offsets = useMemo(() => {
+		const result = new Array<number>(count + 1);
+		result[0] = 0;
+		for (let i = 0; i < count; i++) {
+			const height = typeof rowHeight === 'function' ? rowHeight(i) : rowHeight;
+			result[i + 1] = result[i] + height;
+		}
+		return result;
+	}, [count, rowHeight]);
+
+	return useMemo(() => {
+		const totalHeight = offsets[count];
+
+		if (disabled || count === 0) {
+			return { startIndex: 0, endIndex: count, paddingTop: 0, paddingBottom: 0, totalHeight };
+		}
+
+		const bottom = scrollTop + viewportHeight;
+		const startIndex = Math.max(0, findRowIndex(offsets, scrollTop) - overscan);
+		const endIndex = Math.min(count, findRowIndex(offsets, bottom) + 1 + overscan);
+
+		return {
+			startIndex,
+			endIndex,
+			paddingTop: offsets[startIndex],
+			paddingBottom: totalHeight - offsets[endIndex],
+			totalHeight,
+		};
+	}, [offsets, count, disabled, scrollTop, viewportHeight, overscan]);
+}
@@ -82,8 +82,79 @@ export {
   type DataTableProps,
   type ColumnDef,
   type SortDirection,
+  type SortDescriptor,
+  type SortState,
+  type RowKey,
+  type SelectionMode,
+  type ColumnFilterDef,
+  type ColumnFilterType,
+  type ColumnFilterValue,
+  type FilterState,
+  type AggregateType,
+  type AggregateReducer,
+  type CellValue,
+  type CellEditorType,
+  type ColumnEditorDef,
+  type PasteRowChange,
+  type PasteCellError,
+  type FormatTone,
+  type ThresholdRule,
+  type ColorScaleRule,
+  type DataBarRule,
+  type ConditionalFormatRule,
+  type DataTableQuery,
+  type ColumnState,
+  type ExportFormat,
+  type ExportScope,
+  type ExportOptions,
+  type DataTableHandle,
+  type DataTableViewState,
+  type DataTableView,
+  TablePagination,
+  type TablePaginationProps,
+  localStorageViewAdapter,
+  type ViewStorageAdapter,
+  numberColumn,
+  currencyColumn,
+  percentColumn,
+  dateColumn,
+  booleanColumn,
+  deltaColumn,
+  type ColumnPresetOptions,
+  type NumberPresetOptions,
+  type NumberColumnOptions,
+  type CurrencyColumnOptions,
+  type PercentColumnOptions,
+  type DateColumnOptions,
+  type BooleanColumnOptions,
+  type DeltaColumnOptions,
 } from './components/data';
 
+// ─── Chart Components ───
+export {
+  LineChart,
+  AreaChart,
+  type ChartSeries,
+  type CartesianChartProps,
+  type LineChartProps,
+  type AreaChartProps,
+  BarChart,
+  type BarChartProps,
+  type BarOrientation,
+  WaterfallChart,
+  type WaterfallChartProps,
+  type WaterfallStep,
+  FanChart,
+  type FanChartProps,
+  type FanPercentile,
+  DonutChart,
+  type DonutChartProps,
+  type DonutSlice,
+  type DonutLabelMode,
+  createChartPalette,
+  type ChartAxisType,
+} from './components/charts';
+
 // ─── Hooks ───
 export {
   usePanelCollapse,
@@ -91,10 +162,23 @@ export {
   type UsePanelCollapseReturn,
   useResponsiveBreakpoints,
   type Breakpoint,
+  type UseResponsiveBreakpointsOptions,
   type UseResponsiveBreakpointsReturn,
   useSyncedSliderInput,
   type UseSyncedSliderInputOptions,
   type UseSyncedSliderInputReturn,
+  useControllableState,
+  type UseControllableStateOptions,
+  type UseControllableStateReturn,
+  useVirtualRows,
+  type UseVirtualRowsOptions,
+  type UseVirtualRowsReturn,
+  useAnchoredPopover,
+  type UseAnchoredPopoverOptions,
+  type UseAnchoredPopoverReturn,
+  type PopoverPosition,
+  useElementSize,
+  type UseElementSizeReturn,
   useTheme,
   ACCENT_PRESETS,
   type UseThemeOptions,
@@ -5,7 +5,7 @@
 // Used by: Developers to explore and test components in isolation.
 // ─────────────────────────────────────────────────────────────
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
 	BarChart3,
 	Table2,
@@ -44,7 +44,8 @@ import {
 	Modal,
 } from '../components/ui';
 import { PageLayout, TopRibbon, BottomRibbon, TwoColumnLayout } from '../components/layout';
-import { DataTable, type ColumnDef } from '../components/data';
+import { DataTable, currencyColumn, deltaColumn, type ColumnDef, type DataTableQuery } from '../components/data';
+import { LineChart, AreaChart, BarChart, WaterfallChart, FanChart, DonutChart, type ChartSeries, type DonutSlice, type FanPercentile, type WaterfallStep } from '../components/charts';
 import { useSyncedSliderInput, useResponsiveBreakpoints, useTheme, ACCENT_PRESETS, type AccentPreset } from '../hooks';
 
 // ─── Sample Data for Table ───
@@ -71,6 +72,9 @@ const columns: ColumnDef<SampleRow>[] = [
 		accessor: (row) => `£${row.value.toLocaleString()}`,
 		align: 'right',
 		sortable: true,
+		aggregate: 'sum',
+		aggregateValue: (row) => row.value,
+		formatAggregate: (value) => `£${value.toLocaleString()}`,
 	},
 	{
 		id: 'change',
@@ -86,6 +90,363 @@ const columns: ColumnDef<SampleRow>[] = [
 	},
 ];
 
+// ─── Generated Ledger for Large Table Demos ───
+interface LedgerRow {
+	id: number;
+	date: string;
+	account: string;
+	amount: number;
+}
+
+const ledgerAccounts = ['ISA', 'SIPP', 'GIA', 'Cash', 'LISA'];
+
+const ledgerData: LedgerRow[] = Array.from({ length: 10000 }, (_, i) => ({
+	id: i + 1,
+	date: new Date(2015, 0, 1 + i).toISOString().slice(0, 10),
+	account: ledgerAccounts[i % ledgerAccounts.length],
+	amount: Math.round(Math.sin(i) * 250000) / 100,
+}));
+
+const ledgerColumns: ColumnDef<LedgerRow>[] = [
+	{ id: 'date', header: 'Date', accessor: (row) => row.date, sortable: true, filter: { type: 'date' } },
+	{
+		id: 'account',
+		header: 'Account',
+		accessor: (row) => row.account,
+		sortable: true,
+		groupable: true,
+		// Explicit options so the server-side demo offers every account, not just those on the current page
+		filter: { type: 'enum', options: ledgerAccounts.map(account => ({ value: account, label: account })) },
+	},
+	{
+		id: 'amount',
+		header: 'Amount (£)',
+		accessor: (row) => row.amount.toLocaleString('en-GB', { minimumFractionDigits: 2 }),
+		align: 'right',
+		sortable: true,
+		sortFn: (a, b) => a.amount - b.amount,
+		filter: { type: 'number', getValue: (row) => row.amount },
+		exportValue: (row) => row.amount,
+		conditionalFormat: [
+			{ type: 'threshold', operator: '<', value: 0, tone: 'error' },
+			{ type: 'dataBar' },
+		],
+		aggregate: 'sum',
+		formatAggregate: (value) => value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+	},
+];
+
+// ─── Mock Ledger API (server-side sorting, filtering and paging with latency) ───
+interface LedgerPage {
+	rows: LedgerRow[];
+	totalCount: number;
+}
+
+function fetchLedgerPage(query: DataTableQuery): Promise<LedgerPage> {
+	const search = query.globalFilter.trim().toLowerCase();
+
+	const matches = ledgerData.filter(row => {
+		for (const [columnId, filter] of Object.entries(query.filters)) {
+			if (filter.type === 'enum' && filter.values.length > 0 && !filter.values.includes(row.account)) return false;
+			if (filter.type === 'number' && columnId === 'amount') {
+				if (filter.min !== undefined && row.amount < filter.min) return false;
+				if (filter.max !== undefined && row.amount > filter.max) return false;
+			}
+			if (filter.type === 'date') {
+				if (filter.from && row.date < filter.from) return false;
+				if (filter.to && row.date > filter.to) return false;
+			}
+		}
+		return !search || `${row.date} ${row.account} ${row.amount}`.toLowerCase().includes(search);
+	});
+
+	const sorted = [...matches].sort((a, b) => {
+		for (const { columnId, direction } of query.sort) {
+			const key = columnId as keyof LedgerRow;
+			const result = a[key] < b[key] ? -1 : a[key] > b[key] ? 1 : 0;
+			if (result !== 0) return direction === 'asc' ? result : -result;
+		}
+		return 0;
+	});
+
+	const start = (query.page - 1) * query.pageSize;
+	return new Promise(resolve => {
+		setTimeout(() => resolve({
+			rows: sorted.slice(start, start + query.pageSize),
+			totalCount: sorted.length,
+		}), 600);
+	});
+}
+
+// ─── Wide Scenario Comparison ───
+interface ScenarioRow {
+	id: string;
+	metric: string;
+	values: number[];
+}
+
+const scenarioNames = ['Base', 'Low growth', 'High growth', 'Early retirement', 'Late retirement', 'Part-time', 'Downsize', 'Inheritance', 'Market crash', 'High inflation'];
+
+const scenarioData: ScenarioRow[] = ['Net worth at 60', 'Pension pot', 'ISA balance', 'Annual income', 'Tax paid'].map((metric, i) => ({
+	id: metric,
+	metric,
+	values: scenarioNames.map((_, j) => Math.round((i + 1) * 85000 * (1 + Math.cos(i + j) * 0.3))),
+}));
+
+const scenarioColumns: ColumnDef<ScenarioRow>[] = [
+	{ id: 'metric', header: 'Metric', accessor: (row) => row.metric, pinned: 'left', width: '160px' },
+	...scenarioNames.map((name, j) => currencyColumn<ScenarioRow>({
+		id: `scenario-${j}`,
+		header: name,
+		value: (row) => row.values[j],
+		fractionDigits: 0,
+	})),
+	deltaColumn<ScenarioRow>({
+		id: 'best-vs-base',
+		header: 'Best vs Base',
+		value: (row) => Math.max(...row.values) / row.values[0] - 1,
+		format: 'percent',
+		pinned: 'right',
+	}),
+	currencyColumn<ScenarioRow>({
+		id: 'best',
+		header: 'Best',
+		value: (row) => Math.max(...row.values),
+		fractionDigits: 0,
+		pinned: 'right',
+		cellClassName: 'font-semibold tabular-nums whitespace-nowrap',
+	}),
+];
+
+// ─── Account Hierarchy (tree data) ───
+interface HoldingNode {
+	id: string;
+	name: string;
+	kind: 'Portfolio' | 'Account' | 'Holding';
+	value?: number;
+	children?: HoldingNode[];
+}
+
+const holdingsTree: HoldingNode[] = [
+	{
+		id: 'retirement',
+		name: 'Retirement',
+		kind: 'Portfolio',
+		children: [
+			{
+				id: 'sipp',
+				name: 'SIPP',
+				kind: 'Account',
+				children: [
+					{ id: 'sipp-global', name: 'Global Equity Index', kind: 'Holding', value: 84200 },
+					{ id: 'sipp-bonds', name: 'Gilt Fund', kind: 'Holding', value: 21500 },
+				],
+			},
+			{
+				id: 'workplace',
+				name: 'Workplace Pension',
+				kind: 'Account',
+				children: [
+					{ id: 'workplace-default', name: 'Default Lifestyle Fund', kind: 'Holding', value: 56300 },
+				],
+			},
+		],
+	},
+	{
+		id: 'savings',
+		name: 'Savings',
+		kind: 'Portfolio',
+		children: [
+			{
+				id: 'isa',
+				name: 'Stocks & Shares ISA',
+				kind: 'Account',
+				children: [
+					{ id: 'isa-us', name: 'US Equity Index', kind: 'Holding', value: 32800 },
+					{ id: 'isa-em', name: 'Emerging Markets', kind: 'Holding', value: 9100 },
+				],
+			},
+			{ id: 'cash', name: 'Easy Access Cash', kind: 'Account', value: 12000 },
+		],
+	},
+];
+
+const holdingColumns: ColumnDef<HoldingNode>[] = [
+	{ id: 'name', header: 'Name', accessor: (row) => row.name, sortable: true, filter: { type: 'text' } },
+	{ id: 'kind', header: 'Type', accessor: (row) => row.kind },
+	{
+		id: 'value',
+		header: 'Value (£)',
+		accessor: (row) => row.value?.toLocaleString('en-GB') ?? '',
+		align: 'right',
+		sortable: true,
+		sortFn: (a, b) => (a.value ?? 0) - (b.value ?? 0),
+		aggregate: 'sum',
+		aggregateValue: (row) => row.value,
+		conditionalFormat: [{ type: 'colorScale', mid: null, low: 'warning' }],
+	},
+];
+
+// ─── Editable Deposit Schedule ───
+interface DepositRow {
+	id: number;
+	label: string;
+	amount: number;
+	account: string;
+	recurring: boolean;
+}
+
+const initialDeposits: DepositRow[] = [
+	{ id: 1, label: 'Salary sacrifice', amount: 500, account: 'SIPP', recurring: true },
+	{ id: 2, label: 'Bonus top-up', amount: 5000, account: 'ISA', recurring: false },
+	{ id: 3, label: 'Emergency fund', amount: 250, account: 'Cash', recurring: true },
+];
+
+const depositColumns: ColumnDef<DepositRow>[] = [
+	{
+		id: 'label',
+		header: 'Deposit',
+		accessor: (row) => row.label,
+		editor: {
+			type: 'text',
+			getValue: (row) => row.label,
+			validate: (value) => String(value ?? '').trim() ? undefined : 'Name is required',
+		},
+	},
+	{
+		id: 'amount',
+		header: 'Amount (£)',
+		accessor: (row) => `£${row.amount.toLocaleString()}`,
+		align: 'right',
+		editor: {
+			type: 'number',
+			getValue: (row) => row.amount,
+			validate: (value) => typeof value === 'number' && value >= 0 ? undefined : 'Enter a positive amount',
+		},
+	},
+	{
+		id: 'account',
+		header: 'Account',
+		accessor: (row) => row.account,
+		editor: {
+			type: 'select',
+			getValue: (row) => row.account,
+			options: ledgerAccounts.map(account => ({ value: account, label: account })),
+		},
+	},
+	{
+		id: 'recurring',
+		header: 'Monthly',
+		accessor: (row) => row.recurring ? 'Yes' : 'No',
+		editor: { type: 'toggle', getValue: (row) => row.recurring },
+	},
+];
+
+// ─── Retirement Projection (charts) ───
+interface ProjectionRow {
+	year: number;
+	pension: number;
+	isa: number;
+	cash: number;
+}
+
+const projectionData: ProjectionRow[] = Array.from({ length: 31 }, (_, i) => ({
+	year: 2025 + i,
+	pension: Math.round(120000 * 1.05 ** i + 8000 * i),
+	isa: Math.round(40000 * 1.045 ** i + 6000 * i),
+	cash: Math.round(12000 + 500 * i),
+}));
+
+const projectionSeries: ChartSeries<ProjectionRow>[] = [
+	{ id: 'pension', name: 'Pension', value: (row) => row.pension },
+	{ id: 'isa', name: 'ISA', value: (row) => row.isa },
+	{ id: 'cash', name: 'Cash', value: (row) => row.cash },
+];
+
+interface BalancePoint {
+	date: Date;
+	balance: number;
+	contributions: number;
+}
+
+const balanceHistory: BalancePoint[] = Array.from({ length: 36 }, (_, i) => ({
+	date: new Date(2023, i, 1),
+	balance: Math.round(50000 + i * 900 + Math.sin(i / 3) * 4000),
+	contributions: 50000 + i * 750,
+}));
+
+interface ContributionRow {
+	year: string;
+	employee: number;
+	employer: number;
+	taxRelief: number;
+}
+
+const contributionData: ContributionRow[] = [
+	{ year: '2021/22', employee: 3200, employer: 2400, taxRelief: 800 },
+	{ year: '2022/23', employee: 3600, employer: 2700, taxRelief: 900 },
+	{ year: '2023/24', employee: 4000, employer: 3000, taxRelief: 1000 },
+	{ year: '2024/25', employee: 4800, employer: 3600, taxRelief: 1200 },
+];
+
+const contributionSeries: ChartSeries<ContributionRow>[] = [
+	{ id: 'employee', name: 'Employee', value: (row) => row.employee },
+	{ id: 'employer', name: 'Employer', value: (row) => row.employer },
+	{ id: 'taxRelief', name: 'Tax relief', value: (row) => row.taxRelief },
+];
+
+const grossToNet: WaterfallStep[] = [
+	{ label: 'Gross salary', value: 65000, type: 'total' },
+	{ label: 'Pension', value: -3250 },
+	{ label: 'Income tax', value: -12432 },
+	{ label: 'National Insurance', value: -3211 },
+	{ label: 'Student loan', value: -3321 },
+	{ label: 'Net pay', type: 'total' },
+];
+
+interface DrawdownPercentiles {
+	age: number;
+	p5: number;
+	p25: number;
+	p50: number;
+	p75: number;
+	p95: number;
+}
+
+// Spread widens with the horizon, as in a Monte Carlo run
+const drawdownProjection: DrawdownPercentiles[] = Array.from({ length: 31 }, (_, i) => {
+	const median = 650000 * 1.01 ** i - 18000 * i;
+	const spread = 14000 * i;
+	return {
+		age: 60 + i,
+		p5: Math.max(0, Math.round(median - 2.4 * spread)),
+		p25: Math.max(0, Math.round(median - spread)),
+		p50: Math.round(median),
+		p75: Math.round(median + 1.2 * spread),
+		p95: Math.round(median + 3 * spread),
+	};
+});
+
+const drawdownPercentiles: FanPercentile<DrawdownPercentiles>[] = [
+	{ percentile: 5, value: (row) => row.p5 },
+	{ percentile: 25, value: (row) => row.p25 },
+	{ percentile: 50, value: (row) => row.p50 },
+	{ percentile: 75, value: (row) => row.p75 },
+	{ percentile: 95, value: (row) => row.p95 },
+];
+
+const assetAllocation: DonutSlice[] = [
+	{ id: 'global-equity', label: 'Global equity', value: 184000 },
+	{ id: 'uk-equity', label: 'UK equity', value: 62000 },
+	{ id: 'bonds', label: 'Bonds', value: 96000 },
+	{ id: 'property', label: 'Property', value: 38000 },
+	{ id: 'cash', label: 'Cash', value: 21000 },
+	{ id: 'gold', label: 'Gold', value: 9000 },
+	{ id: 'crypto', label: 'Crypto', value: 4500 },
+];
+
+const formatPounds = (value: number) => `£${value.toLocaleString('en-GB', { maximumFractionDigits: 0 })}`;
+
 // ─── Accent Color Button ───
 function AccentColorButton({
 	preset,
@@ -111,6 +472,52 @@ function AccentColorButton({
 	);
 }
 
+// ─── Server-Side Ledger Demo ───
+function ServerLedgerDemo() {
+	const [query, setQuery] = useState<DataTableQuery>({
+		sort: [],
+		filters: {},
+		globalFilter: '',
+		page: 1,
+		pageSize: 10,
+	});
+	const [result, setResult] = useState<LedgerPage>({ rows: [], totalCount: 0 });
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		// Ignore responses that arrive after a newer query was issued
+		let isCurrent = true;
+		fetchLedgerPage(query).then(page => {
+			if (!isCurrent) return;
+			setResult(page);
+			setLoading(false);
+		});
+		return () => {
+			isCurrent = false;
+		};
+	}, [query]);
+
+	return (
+		<DataTable
+			columns={ledgerColumns}
+			data={result.rows}
+			getRowKey={(row) => row.id}
+			compact
+			manual
+			pagination
+			defaultPageSize={10}
+			totalCount={result.totalCount}
+			loading={loading}
+			skeletonRowCount={10}
+			globalSearch
+			onQueryChange={(next) => {
+				setLoading(true);
+				setQuery(next);
+			}}
+		/>
+	);
+}
+
 // ─── Component ───
 export function Playground() {
 	// Theme and accent
@@ -122,6 +529,7 @@ export function Playground() {
 	const [numberValue, setNumberValue] = useState<number>(25000);
 	const [isLoading, setIsLoading] = useState(false);
 	const [isModalOpen, setIsModalOpen] = useState(false);
+	const [deposits, setDeposits] = useState(initialDeposits);
 
 	// Synced slider + input demo
 	const { sliderProps, numberInputProps } = useSyncedSliderInput({
@@ -573,10 +981,182 @@ export function Playground() {
 									data={sampleData}
 									getRowKey={(row) => row.id}
 									maxHeight="300px"
+									expandOnRowClick
+									singleExpand
+									renderExpandedRow={(row) => (
+										<div className="flex gap-6 text-xs text-text-secondary">
+											<span>Previous year: £{Math.round(row.value / (1 + row.change / 100)).toLocaleString()}</span>
+											<span>Change: {row.change > 0 ? '+' : ''}{row.change}%</span>
+										</div>
+									)}
 								/>
 							)}
 						</Panel>
 
+						{/* Large Dataset Demo */}
+						<Panel title="Transaction Ledger (10,000 rows)">
+							<DataTable
+								columns={ledgerColumns}
+								data={ledgerData}
+								getRowKey={(row) => row.id}
+								maxHeight="320px"
+								virtualized
+								compact
+								globalSearch
+								defaultGroupBy="account"
+								viewsKey="playground-ledger"
+								exportFormats={['csv', 'tsv', 'json']}
+								resizableColumns
+								reorderableColumns
+								columnChooser
+								exportFilename="ledger"
+								selectionMode="multi"
+								bulkActions={(rows, clearSelection) => (
+									<Button size="sm" variant="secondary" onClick={clearSelection}>
+										Reconcile {rows.length.toLocaleString()}
+									</Button>
+								)}
+							/>
+						</Panel>
+
+						{/* Server-Side Demo */}
+						<Panel title="Server-side Ledger (mock API)">
+							<ServerLedgerDemo />
+						</Panel>
+
+						{/* Pinned Columns Demo */}
+						<Panel title="Scenario Comparison (pinned columns, drag to select and copy cells, cards on mobile)">
+							<DataTable
+								columns={scenarioColumns}
+								data={scenarioData}
+								getRowKey={(row) => row.id}
+								cellSelection
+								cardBreakpoint="md"
+								cardTitleColumn="metric"
+								compact
+							/>
+						</Panel>
+
+						{/* Tree Data Demo */}
+						<Panel title="Account Hierarchy (tree data)">
+							<DataTable
+								columns={holdingColumns}
+								data={holdingsTree}
+								getRowKey={(row) => row.id}
+								getSubRows={(row) => row.children}
+								defaultTreeExpandedKeys={['retirement']}
+								aggregateParentRows
+								compact
+							/>
+						</Panel>
+
+						{/* Editable Table Demo */}
+						<Panel title="Deposit Schedule (double-click to edit, paste from a spreadsheet)">
+							<DataTable
+								columns={depositColumns}
+								data={deposits}
+								getRowKey={(row) => row.id}
+								compact
+								cellSelection
+								onCellEdit={(rowKey, columnId, value) => {
+									setDeposits(rows => rows.map(row =>
+										row.id === rowKey ? { ...row, [columnId]: value } : row
+									));
+								}}
+								onPasteRows={(changes) => {
+									const valuesByKey = new Map(changes.map(change => [change.rowKey, change.values]));
+									setDeposits(rows => rows.map(row =>
+										valuesByKey.has(row.id) ? { ...row, ...valuesByKey.get(row.id) } : row
+									));
+								}}
+							/>
+						</Panel>
+
+						{/* Chart Demos */}
+						<Panel title="Retirement Projection (stacked area chart)">
+							<AreaChart
+								data={projectionData}
+								x={(row) => row.year}
+								series={projectionSeries}
+								stacked
+								formatY={formatPounds}
+								title="Projected savings by account, 2025 to 2055"
+								xLabel="Year"
+							/>
+						</Panel>
+
+						<Panel title="Portfolio Balance (time axis line chart)">
+							<LineChart
+								data={balanceHistory}
+								x={(row) => row.date}
+								series={[
+									{ id: 'balance', name: 'Balance', value: (row) => row.balance },
+									{ id: 'contributions', name: 'Contributions', value: (row) => row.contributions },
+								]}
+								formatY={formatPounds}
+								height={260}
+								title="Portfolio balance against contributions, monthly"
+							/>
+						</Panel>
+
+						<Panel title="Drawdown Projection (fan chart)">
+							<FanChart
+								data={drawdownProjection}
+								x={(row) => row.age}
+								percentiles={drawdownPercentiles}
+								target={250000}
+								targetLabel="Safety buffer"
+								formatY={formatPounds}
+								title="Projected pot in drawdown from age 60, 5th to 95th percentile"
+								xLabel="Age"
+							/>
+						</Panel>
+
+						<Panel title="Asset Allocation (donut chart)">
+							<DonutChart
+								data={assetAllocation}
+								otherThreshold={0.03}
+								formatValue={formatPounds}
+								centerLabel="Portfolio"
+								title="Portfolio split by asset class"
+							/>
+						</Panel>
+
+						<Panel title="Gross to Net Pay (waterfall chart)">
+							<WaterfallChart
+								data={grossToNet}
+								formatValue={formatPounds}
+								title="How a £65,000 salary becomes net pay"
+							/>
+						</Panel>
+
+						<Panel title="Pension Contributions (stacked bar chart)">
+							<BarChart
+								data={contributionData}
+								category={(row) => row.year}
+								series={contributionSeries}
+								stacked
+								showValues
+								formatValue={formatPounds}
+								height={260}
+								title="Pension contributions by tax year"
+								categoryLabel="Tax year"
+							/>
+						</Panel>
+
+						<Panel title="Contributions by Source (horizontal grouped bars)">
+							<BarChart
+								data={contributionData}
+								category={(row) => row.year}
+								series={contributionSeries}
+								orientation="horizontal"
+								formatValue={formatPounds}
+								height={320}
+								title="Pension contributions by source and tax year"
+								categoryLabel="Tax year"
+							/>
+						</Panel>
+
 						{/* Collapsible Demo */}
 						<CollapsiblePanel
 							title="Collapsible Section"